@@ -1,6 +1,8 @@
 // Phase 2: Real-time Gmail-Todo Agent with webhook triggers
 import dotenv from 'dotenv';
+import { createLogger } from './core/logger';
 import { initializeComposio } from './services/composio';
+import { isLLMConfigured } from './services/llm-provider';
 import { processEmails } from './services/email-processor';
 import { createGmailTrigger, listActiveTriggers, hasGmailTrigger } from './services/triggers';
 import { startWebhookServer, stopWebhookServer, getWebhookUrl } from './services/webhook-server';
@@ -13,16 +15,15 @@ import {
   BatchProcessingConfig,
   BatchProcessingStats
 } from './services/batch-processor';
+import { startTaskSync, stopTaskSync, runTaskSync, getTaskSyncStats, TaskSyncStats } from './services/task-sync';
+import { startJobWorker, stopJobWorker, getJobQueueStats, JobQueueStats } from './services/job-queue';
+import { isDryRun } from './services/dry-run';
+import { flushRuleStats } from './services/rule-engine';
 
 // Load environment variables
 dotenv.config();
 
-// Simple logger
-const log = {
-  info: (msg: string, ...args: any[]) => console.log(`[INFO] ${msg}`, ...args),
-  error: (msg: string, ...args: any[]) => console.error(`[ERROR] ${msg}`, ...args),
-  warn: (msg: string, ...args: any[]) => console.warn(`[WARN] ${msg}`, ...args)
-};
+const log = createLogger('app');
 
 // App state
 interface AppState {
@@ -30,6 +31,7 @@ interface AppState {
   webhookServerRunning: boolean;
   gmailTriggerActive: boolean;
   batchProcessingRunning: boolean;
+  taskSyncRunning: boolean;
   webhookUrl?: string;
   triggerId?: string;
 }
@@ -38,7 +40,8 @@ let appState: AppState = {
   initialized: false,
   webhookServerRunning: false,
   gmailTriggerActive: false,
-  batchProcessingRunning: false
+  batchProcessingRunning: false,
+  taskSyncRunning: false
 };
 
 // Initialize all services
@@ -60,8 +63,8 @@ export const initializeApp = async (): Promise<{success: boolean, error?: string
     log.info('📡 Initializing Composio client...');
     await initializeComposio(composioApiKey);
 
-    // Try to initialize AI service if OpenAI key is available
-    if (process.env.OPENAI_API_KEY) {
+    // Try to initialize AI service if an LLM provider is configured
+    if (isLLMConfigured()) {
       const { initializeAI } = await import('./services/ai-service');
       const aiResult = await initializeAI();
       if (aiResult.success) {
@@ -70,9 +73,13 @@ export const initializeApp = async (): Promise<{success: boolean, error?: string
         log.warn(`⚠️ AI service unavailable: ${aiResult.error} - will use basic classification`);
       }
     } else {
-      log.info('ℹ️ No OpenAI API key - AI features disabled');
+      log.info('ℹ️ No LLM provider configured - AI features disabled');
     }
 
+    // Classification history feeds pattern stats and the local classifier
+    const { loadClassificationHistory } = await import('./services/ai-service');
+    await loadClassificationHistory();
+
     appState.initialized = true;
     log.info('✅ App initialization complete');
     return { success: true };
@@ -95,6 +102,9 @@ export const startRealTimeProcessing = async (port: number = 3001): Promise<{suc
 
     log.info('🌐 Starting real-time processing...');
 
+    // Start the job worker first so queued webhook events are picked up straight away
+    await startJobWorker();
+
     // Start webhook server
     const serverResult = await startWebhookServer(port);
     if (!serverResult.success) {
@@ -131,6 +141,14 @@ export const startRealTimeProcessing = async (port: number = 3001): Promise<{suc
     appState.batchProcessingRunning = true;
     log.info('Batch processing started (15-minute intervals)');
 
+    // Keep Gmail in sync with tasks completed in Todoist (it only writes, so a dry run skips it)
+    if (isDryRun()) {
+      log.info('🧪 Dry-run mode: task sync is disabled');
+    } else {
+      await startTaskSync();
+      appState.taskSyncRunning = true;
+    }
+
     log.info(' Real-time processing started!');
     log.info(`Webhook URL: ${getWebhookUrl(port)}`);
     // log.info(' New Gmail messages will now be automatically processed');
@@ -157,6 +175,9 @@ export const stopRealTimeProcessing = async (): Promise<{success: boolean}> => {
       log.info('✅ Webhook server stopped');
     }
 
+    // Queued jobs stay on disk and resume on the next start
+    stopJobWorker();
+
     // Note: We don't delete the Gmail trigger as it can be reused
     log.info('✅ Real-time processing stopped');
     return { success: true };
@@ -261,11 +282,36 @@ export const updateBatchConfiguration = (newConfig: Partial<BatchProcessingConfi
   return updateBatchConfig(newConfig);
 };
 
+// Run a single Todoist → Gmail sync cycle
+export const runManualTaskSync = async (): Promise<{success: boolean, stats?: TaskSyncStats, error?: string}> => {
+  try {
+    if (!appState.initialized) {
+      const initResult = await initializeApp();
+      if (!initResult.success) {
+        return { success: false, error: initResult.error };
+      }
+    }
+
+    log.info('🔄 Running task sync...');
+    const stats = await runTaskSync();
+    if (stats.lastError) {
+      return { success: false, stats, error: stats.lastError };
+    }
+    return { success: true, stats };
+
+  } catch (error) {
+    log.error('❌ Task sync failed:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+};
+
 // Get app status
-export const getAppStatus = async (): Promise<AppState & {activeTriggers: any[], batchStats: BatchProcessingStats}> => {
+export const getAppStatus = async (): Promise<AppState & {activeTriggers: any[], batchStats: BatchProcessingStats, taskSyncStats: TaskSyncStats, jobStats: JobQueueStats}> => {
   const activeTriggers = await listActiveTriggers();
   const batchStats = getBatchProcessingStats();
-  return { ...appState, activeTriggers, batchStats };
+  const taskSyncStats = getTaskSyncStats();
+  const jobStats = await getJobQueueStats();
+  return { ...appState, activeTriggers, batchStats, taskSyncStats, jobStats };
 };
 
 // Graceful shutdown
@@ -273,5 +319,8 @@ export const shutdown = async (): Promise<void> => {
   log.info('🛑 Shutting down Gmail-Todo Agent...');
   await stopRealTimeProcessing();
   await stopBatchProcessing();
+  stopTaskSync();
+  appState.taskSyncRunning = false;
+  await flushRuleStats();
   log.info('👋 Shutdown complete');
 };
\ No newline at end of file
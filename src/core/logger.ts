@@ -0,0 +1,158 @@
+// Logging - winston-backed Logger per module, with per-module levels, JSON output and correlation IDs
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import winston from 'winston';
+import { Logger } from './types';
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+export interface LoggingConfig {
+  level: LogLevel;
+  format: 'pretty' | 'json';
+  moduleLevels: { [module: string]: LogLevel };
+  file?: string;
+  fileMaxSizeMb: number;
+  fileMaxFiles: number;
+}
+
+// Carried through one processing run via AsyncLocalStorage
+export interface LogContext {
+  correlationId: string;
+  emailId?: string;
+  source?: string;
+}
+
+const LEVEL_ORDER: { [level in LogLevel]: number } = { error: 0, warn: 1, info: 2, debug: 3 };
+
+// Global logging state (functional approach)
+const contextStorage = new AsyncLocalStorage<LogContext>();
+let rootLogger: winston.Logger | null = null;
+let loggingConfig: LoggingConfig | null = null;
+
+// Logging configuration (LOG_LEVEL, LOG_FORMAT, LOG_MODULE_LEVELS, LOG_FILE, LOG_FILE_MAX_SIZE_MB, LOG_FILE_MAX_FILES)
+export const getLoggingConfig = (): LoggingConfig => {
+  if (loggingConfig) return loggingConfig;
+
+  // LOG_MODULE_LEVELS="gmail=debug,rule-engine=warn"
+  const moduleLevels: { [module: string]: LogLevel } = {};
+  (process.env.LOG_MODULE_LEVELS || '').split(',').forEach(entry => {
+    const [module, level] = entry.split('=').map(part => part?.trim());
+    if (module && isLogLevel(level)) {
+      moduleLevels[module] = level;
+    }
+  });
+
+  loggingConfig = {
+    level: isLogLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : 'info',
+    format: process.env.LOG_FORMAT === 'json' ? 'json' : 'pretty',
+    moduleLevels,
+    file: process.env.LOG_FILE || undefined,
+    fileMaxSizeMb: parseInt(process.env.LOG_FILE_MAX_SIZE_MB || '10'),
+    fileMaxFiles: parseInt(process.env.LOG_FILE_MAX_FILES || '5')
+  };
+  return loggingConfig;
+};
+
+// Create a logger for a module - level filtering happens here so each module can have its own level
+export const createLogger = (module: string): Logger => {
+  const write = (level: LogLevel, message: string, meta?: any): void => {
+    const config = getLoggingConfig();
+    const threshold = config.moduleLevels[module] || config.level;
+    if (LEVEL_ORDER[level] > LEVEL_ORDER[threshold]) return;
+
+    getRootLogger().log({
+      ...normalizeMeta(meta),
+      ...contextStorage.getStore(),
+      level,
+      message,
+      module
+    });
+  };
+
+  return {
+    error: (message, meta) => write('error', message, meta),
+    warn: (message, meta) => write('warn', message, meta),
+    info: (message, meta) => write('info', message, meta),
+    debug: (message, meta) => write('debug', message, meta)
+  };
+};
+
+// Run a function with a log context - nested calls inherit and extend the outer context
+export const withLogContext = <T>(context: Partial<LogContext>, fn: () => Promise<T>): Promise<T> => {
+  const current = contextStorage.getStore();
+  const merged: LogContext = {
+    ...current,
+    ...stripUndefined(context),
+    correlationId: context.correlationId || current?.correlationId || newCorrelationId()
+  };
+  return contextStorage.run(merged, fn);
+};
+
+// Current log context, if any
+export const getLogContext = (): LogContext | undefined => {
+  return contextStorage.getStore();
+};
+
+// Short random correlation ID
+export const newCorrelationId = (): string => {
+  return crypto.randomBytes(6).toString('hex');
+};
+
+// Build the shared winston logger on first use
+const getRootLogger = (): winston.Logger => {
+  if (rootLogger) return rootLogger;
+
+  const config = getLoggingConfig();
+  const transports: winston.transport[] = [
+    new winston.transports.Console({
+      stderrLevels: ['error', 'warn'],
+      format: config.format === 'json' ? jsonFormat() : prettyFormat()
+    })
+  ];
+
+  if (config.file) {
+    // Size-based rotation: app.log, app1.log, ... with the newest always in app.log
+    transports.push(new winston.transports.File({
+      filename: config.file,
+      maxsize: config.fileMaxSizeMb * 1024 * 1024,
+      maxFiles: config.fileMaxFiles,
+      tailable: true,
+      format: jsonFormat()
+    }));
+  }
+
+  // Every level reaches the transports - createLogger has already filtered
+  rootLogger = winston.createLogger({ level: 'debug', transports });
+  return rootLogger;
+};
+
+const jsonFormat = () => winston.format.combine(winston.format.timestamp(), winston.format.json());
+
+const prettyFormat = () => winston.format.combine(
+  winston.format.timestamp({ format: 'HH:mm:ss.SSS' }),
+  winston.format.printf(info => {
+    const { timestamp, level, message, module, correlationId, emailId, source, stack, ...rest } = info;
+    const context = correlationId ? ` (${[source, emailId, correlationId].filter(Boolean).join(' ')})` : '';
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+    return `${timestamp} ${level.toUpperCase().padEnd(5)} [${module}]${context} ${message}${extra}${stack ? `\n${stack}` : ''}`;
+  })
+);
+
+// Turn the optional meta argument into loggable fields (errors keep their message and stack)
+const normalizeMeta = (meta: any): { [key: string]: any } => {
+  if (meta === undefined || meta === null) return {};
+  if (meta instanceof Error) return { error: meta.message, stack: meta.stack };
+  if (typeof meta !== 'object' || Array.isArray(meta)) return { detail: meta };
+
+  return Object.fromEntries(
+    Object.entries(meta).map(([key, value]) => [key, value instanceof Error ? { message: value.message, stack: value.stack } : value])
+  );
+};
+
+const isLogLevel = (value: string | undefined): value is LogLevel => {
+  return value !== undefined && value in LEVEL_ORDER;
+};
+
+const stripUndefined = <T extends object>(value: T): Partial<T> => {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+};
@@ -0,0 +1,151 @@
+// Metrics registry - counters and histograms rendered in the Prometheus text exposition format
+type Labels = { [name: string]: string | number };
+
+export interface Counter {
+  inc: (labels?: Labels, value?: number) => void;
+}
+
+export interface Histogram {
+  observe: (labels: Labels, value: number) => void;
+  startTimer: (labels?: Labels) => (extraLabels?: Labels) => number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: 'counter' | 'histogram';
+  metric: Counter | Histogram;
+  render: () => string[];
+}
+
+// Default latency buckets in seconds
+export const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+// Global registry (functional approach) - metrics are registered once, by name
+const registry = new Map<string, MetricFamily>();
+const processStartTime = Date.now() / 1000;
+
+// Create (or get the already registered) counter
+export const createCounter = (name: string, help: string, labelNames: string[] = []): Counter => {
+  const existing = registry.get(name);
+  if (existing) return existing.metric as Counter;
+
+  const values = new Map<string, { labels: Labels; value: number }>();
+  const counter: Counter = {
+    inc: (labels: Labels = {}, value: number = 1) => {
+      const key = labelKey(labelNames, labels);
+      const entry = values.get(key) || { labels: pickLabels(labelNames, labels), value: 0 };
+      entry.value += value;
+      values.set(key, entry);
+    }
+  };
+
+  registry.set(name, {
+    name,
+    help,
+    type: 'counter',
+    metric: counter,
+    render: () => Array.from(values.values()).map(entry => `${name}${formatLabels(entry.labels)} ${entry.value}`)
+  });
+  return counter;
+};
+
+// Create (or get the already registered) histogram
+export const createHistogram = (
+  name: string,
+  help: string,
+  labelNames: string[] = [],
+  buckets: number[] = DEFAULT_BUCKETS
+): Histogram => {
+  const existing = registry.get(name);
+  if (existing) return existing.metric as Histogram;
+
+  const sortedBuckets = [...buckets].sort((a, b) => a - b);
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  const observe = (labels: Labels, value: number): void => {
+    const key = labelKey(labelNames, labels);
+    const entry = series.get(key) || { labels: pickLabels(labelNames, labels), counts: sortedBuckets.map(() => 0), sum: 0, count: 0 };
+    sortedBuckets.forEach((bucket, index) => {
+      if (value <= bucket) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    series.set(key, entry);
+  };
+
+  const histogram: Histogram = {
+    observe,
+    // Returns a function that records the elapsed seconds when called
+    startTimer: (labels: Labels = {}) => {
+      const start = process.hrtime.bigint();
+      return (extraLabels: Labels = {}) => {
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+        observe({ ...labels, ...extraLabels }, seconds);
+        return seconds;
+      };
+    }
+  };
+
+  registry.set(name, {
+    name,
+    help,
+    type: 'histogram',
+    metric: histogram,
+    render: () => {
+      const lines: string[] = [];
+      series.forEach(entry => {
+        sortedBuckets.forEach((bucket, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: bucket })} ${entry.counts[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+        lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+        lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+      });
+      return lines;
+    }
+  });
+  return histogram;
+};
+
+// Render every registered metric
+export const renderMetrics = (): string => {
+  const lines: string[] = [
+    '# HELP process_start_time_seconds Start time of the process since unix epoch in seconds.',
+    '# TYPE process_start_time_seconds gauge',
+    `process_start_time_seconds ${Math.round(processStartTime)}`,
+    '# HELP process_resident_memory_bytes Resident memory size in bytes.',
+    '# TYPE process_resident_memory_bytes gauge',
+    `process_resident_memory_bytes ${process.memoryUsage().rss}`
+  ];
+
+  registry.forEach(family => {
+    lines.push(`# HELP ${family.name} ${family.help}`);
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+    lines.push(...family.render());
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+const pickLabels = (labelNames: string[], labels: Labels): Labels => {
+  const picked: Labels = {};
+  labelNames.forEach(name => {
+    picked[name] = labels[name] ?? '';
+  });
+  return picked;
+};
+
+const labelKey = (labelNames: string[], labels: Labels): string => {
+  return labelNames.map(name => String(labels[name] ?? '')).join('\u0000');
+};
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return '{' + entries.map(([name, value]) => `${name}="${escapeLabelValue(String(value))}"`).join(',') + '}';
+};
+
+const escapeLabelValue = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+};
@@ -0,0 +1,155 @@
+// Local file storage helpers - shared by services that persist state between runs
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from './logger';
+
+const log = createLogger('storage');
+
+// Resolve the agent's data directory (DATA_DIR or ./data)
+export const getDataDir = (): string => {
+  return path.resolve(process.env.DATA_DIR || 'data');
+};
+
+// Resolve a file inside the data directory
+export const getDataPath = (fileName: string): string => {
+  return path.join(getDataDir(), fileName);
+};
+
+// Check whether a file exists
+export const fileExists = async (filePath: string): Promise<boolean> => {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Read and parse a JSON file, returning null when the file does not exist
+export const readJsonFile = async <T>(filePath: string): Promise<T | null> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+
+  try {
+    return JSON.parse(content) as T;
+  } catch (error) {
+    throw new Error(`Invalid JSON in ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+// Pending writes per file, so concurrent saves never interleave
+const pendingWrites = new Map<string, Promise<void>>();
+
+// Write JSON atomically (write to a temp file, then rename over the target)
+export const writeJsonFile = async (filePath: string, data: unknown): Promise<void> => {
+  const content = JSON.stringify(data, null, 2) + '\n';
+  const previous = pendingWrites.get(filePath) || Promise.resolve();
+
+  const write = previous.catch(() => undefined).then(async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, content, 'utf8');
+    await fs.rename(tempPath, filePath);
+  });
+
+  pendingWrites.set(filePath, write);
+  try {
+    await write;
+  } finally {
+    if (pendingWrites.get(filePath) === write) {
+      pendingWrites.delete(filePath);
+    }
+  }
+};
+
+// Lock files older than this were left behind by a crashed process
+const STALE_LOCK_MS = 30000;
+const LOCK_TIMEOUT_MS = 10000;
+const LOCK_RETRY_MS = 50;
+
+// Run fn while holding <file>.lock, so read-modify-write cycles from separate processes (CLI and agent) never interleave
+export const withFileLock = async <T>(filePath: string, fn: () => Promise<T>): Promise<T> => {
+  const lockPath = `${filePath}.lock`;
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const startedAt = Date.now();
+  while (!await tryCreateLock(lockPath)) {
+    if (await isStaleLock(lockPath)) {
+      log.warn(`⚠️ Removing stale lock ${lockPath}`);
+      await fs.rm(lockPath, { force: true });
+      continue;
+    }
+    if (Date.now() - startedAt > LOCK_TIMEOUT_MS) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+};
+
+const tryCreateLock = async (lockPath: string): Promise<boolean> => {
+  try {
+    await fs.writeFile(lockPath, String(process.pid), { flag: 'wx' });
+    return true;
+  } catch (error: any) {
+    if (error?.code === 'EEXIST') return false;
+    throw error;
+  }
+};
+
+const isStaleLock = async (lockPath: string): Promise<boolean> => {
+  try {
+    const stats = await fs.stat(lockPath);
+    return Date.now() - stats.mtimeMs > STALE_LOCK_MS;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return false; // Released meanwhile
+    throw error;
+  }
+};
+
+// Append a single record to a JSON-lines file (one write call per record)
+export const appendJsonLine = async (filePath: string, record: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, JSON.stringify(record) + '\n', 'utf8');
+};
+
+// Read all records from a JSON-lines file, skipping lines that cannot be parsed
+export const readJsonLines = async <T>(filePath: string): Promise<T[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const records: T[] = [];
+  content.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      log.warn(`⚠️ Skipping malformed line ${index + 1} in ${filePath}`);
+    }
+  });
+  return records;
+};
+
+// Replace a JSON-lines file with the given records (atomic rename)
+export const writeJsonLines = async (filePath: string, records: unknown[]): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const content = records.map(record => JSON.stringify(record)).join('\n');
+  await fs.writeFile(tempPath, content ? content + '\n' : '', 'utf8');
+  await fs.rename(tempPath, filePath);
+};
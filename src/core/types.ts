@@ -3,12 +3,25 @@ export interface EmailData {
   id: string;
   from: string;
   to: string;
+  cc?: string;
+  bcc?: string;
+  replyTo?: string;
   subject: string;
   body: string;
   snippet: string;
   labelIds: string[];
+  labelNames?: string[]; // labelIds resolved through the Gmail label cache
   threadId: string;
   timestamp: Date;
+  attachments?: EmailAttachment[];
+  listId?: string; // List-Id header
+  isMailingList?: boolean; // List-Id, List-Unsubscribe or Precedence: list/bulk present
+}
+
+export interface EmailAttachment {
+  filename: string;
+  mimeType: string;
+  size: number; // Bytes
 }
 
 export interface TaskData {
@@ -17,6 +30,7 @@ export interface TaskData {
   priority: 1 | 2 | 3 | 4;
   dueDate?: string;
   projectId?: string;
+  sectionId?: string;
   labels?: string[];
 }
 
@@ -1,27 +1,73 @@
 // Phase 3: AI-Enhanced Gmail-Todo Agent
-import { initializeApp, startRealTimeProcessing, runManualProcessing, startBatchProcessing, stopBatchProcessing, runManualBatchProcessing, getBatchStats, getAppStatus, shutdown } from './app';
+import readline from 'readline/promises';
+import { initializeApp, startRealTimeProcessing, runManualProcessing, startBatchProcessing, stopBatchProcessing, runManualBatchProcessing, runManualTaskSync, getBatchStats, getAppStatus, shutdown } from './app';
+import { getTaskSyncConfig } from './services/task-sync';
+import { initializeTaskMappings, listTaskMappings, getMappingForEmail } from './services/task-mappings';
 import { getProcessingStats, resetProcessingStats } from './services/email-processor';
-import { getClassificationStats, getSenderPatterns, clearHistory } from './services/ai-service';
-import { getRuleStats, getRules } from './services/rule-engine';
+import { getClassificationStats, getSenderPatterns, clearHistory, draftRuleFromDescription, isAIAvailable, loadClassificationHistory } from './services/ai-service';
+import { trainLocalClassifier, getLocalClassifierStats, getLocalClassifierConfig, classifyEmailLocally } from './services/local-classifier';
+import { getEmailById } from './services/gmail';
+import { listReviewItems, approveReviewItem, rejectReviewItem, getReviewThreshold, getReviewItem } from './services/review-queue';
+import { runFeedbackScan, listFeedback } from './services/feedback';
+import { getAuditRecords } from './services/audit';
+import { enableDryRun, isDryRun, getDryRunReport, DryRunAction } from './services/dry-run';
+import { initializeLedger, getLedgerEntry } from './services/ledger';
+import { listJobs, getJob, getJobQueueStats, getJobQueueConfig, retryJobs, purgeJobs, JobStatus } from './services/job-queue';
+import { getRuleStats, getRules, initializeRuleEngine, getRuleEvaluationConfig, addCustomRule, FilterRule, RuleMatchResult } from './services/rule-engine';
+import { findProjectIdByName } from './services/todoist';
+import { getOpenRuleSuggestions, getRuleSuggestion, acceptRuleSuggestion, RuleSuggestionPreview } from './services/rule-suggestions';
+import { loadTestEmails, loadCandidateRules, testRules, diffRules, describeRuleOutcome, RuleTestSource } from './services/rule-tester';
+import { getRulesFilePath } from './services/rule-store';
 import { 
   connectAll, connectGmail, connectTodoist, checkConnectionStatus, 
   testConnections, disconnectAll, disconnectToolkit, showConnectedAccounts,
   showConnectionInstructions 
 } from './services/account-manager';
 
-// Simple CLI handling
+// Simple CLI handling - global flags are taken out of argv so positional arguments keep their places
+const dryRunRequested = process.argv.includes('--dry-run');
+process.argv = process.argv.filter(arg => arg !== '--dry-run');
 const command = process.argv[2];
 const port = parseInt(process.env.WEBHOOK_PORT || '3001');
 
+// Read a "--name value" option from the command line
+const getOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+// Read a "--name value1 value2 ..." option (values run until the next --option)
+const getOptionValues = (name: string): string[] => {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return [];
+  const values: string[] = [];
+  for (const arg of process.argv.slice(index + 1)) {
+    if (arg.startsWith('--')) break;
+    values.push(arg);
+  }
+  return values;
+};
+
 async function main() {
   try {
+    if (dryRunRequested) {
+      const supportsDryRun = command === 'process' || command === 'start' || (command === 'batch' && process.argv[3] === 'run');
+      if (!supportsDryRun) {
+        console.error('❌ --dry-run is supported by: process, batch run, start');
+        process.exit(1);
+      }
+      enableDryRun();
+    }
+
     switch (command) {
       case 'start':
         // Start real-time processing
         console.log('Starting Gmail-Todo Agent in real-time mode...');
         const result = await startRealTimeProcessing(port);
         if (result.success) {
-          console.log('✅ Agent is running! New Gmail messages will be automatically processed.');
+          console.log(isDryRun()
+            ? '🧪 Agent is running in dry-run mode - nothing will be labeled or created. The report is printed on Ctrl+C.'
+            : '✅ Agent is running! New Gmail messages will be automatically processed.');
           console.log('Press Ctrl+C to stop.');
           
           // Keep alive
@@ -38,6 +84,7 @@ async function main() {
         const processResult = await runManualProcessing(maxEmails);
         if (processResult.success) {
           console.log(`✅ Processed ${processResult.processed} emails`);
+          printDryRunReport();
         } else {
           console.error('❌ Processing failed:', processResult.error);
           process.exit(1);
@@ -53,6 +100,8 @@ async function main() {
         console.log(`  Webhook Server: ${status.webhookServerRunning ? '🟢 Running' : '🔴 Stopped'}`);
         console.log(`  Gmail Trigger: ${status.gmailTriggerActive ? '🟢 Active' : '🔴 Inactive'}`);
         console.log(`  Batch Processing: ${status.batchProcessingRunning ? '🟢 Running' : '🔴 Stopped'}`);
+        console.log(`  Task Sync: ${status.taskSyncRunning ? '🟢 Running' : '🔴 Stopped'}`);
+        console.log(`  Job Queue: ${status.jobStats.pending} pending, ${status.jobStats.running} running, ${status.jobStats.dead} dead`);
         if (status.webhookUrl) {
           console.log(`  Webhook URL: ${status.webhookUrl}/webhook`);
         }
@@ -99,6 +148,8 @@ async function main() {
         console.log('\n Email Processing:');
         console.log(`  Total Processed: ${stats.totalProcessed}`);
         console.log(`  Tasks Created: ${stats.tasksCreated}`);
+        console.log(`  Tasks Updated (thread replies): ${stats.tasksUpdated}`);
+        console.log(`  Queued for Review: ${stats.queuedForReview}`);
         console.log(`  Rule Matched: ${stats.ruleMatched}`);
         console.log(`  AI Processed: ${stats.aiProcessed}`);
         console.log(`  Skipped: ${stats.skipped}`);
@@ -132,26 +183,291 @@ async function main() {
         break;
 
       case 'rules':
+        if (process.argv[3] === 'test') {
+          await runRulesTest();
+          break;
+        }
+        if (process.argv[3] === 'add') {
+          await runRulesAdd();
+          break;
+        }
+        if (process.argv[3] === 'suggest' || process.argv[3] === 'accept') {
+          await runRuleSuggestions(process.argv[3], process.argv[4]);
+          break;
+        }
+
         // Show active rules
         await initializeApp();
         const rules = getRules();
         
+        const evaluationConfig = getRuleEvaluationConfig();
         console.log('🔧 Email Processing Rules:');
+        console.log(`  Rules file: ${getRulesFilePath()}`);
+        console.log(`  Evaluation: ${evaluationConfig.mode}, conflicts: ${evaluationConfig.strategy}`);
         rules.forEach(rule => {
           const status = rule.active ? '🟢' : '🔴';
-          console.log(`  ${status} ${rule.name} (Priority: ${rule.priority}, Matches: ${rule.stats.matched})`);
+          const accuracy = rule.stats.accuracy !== undefined ? `, Accuracy: ${Math.round(rule.stats.accuracy * 100)}%` : '';
+          console.log(`  ${status} ${rule.name} (Priority: ${rule.priority}, Matches: ${rule.stats.matched}${accuracy})`);
           console.log(`      ${rule.description}`);
           if (rule.actions.label) {
             console.log(`      → ${rule.actions.label}`);
           }
+          if (rule.actions.project) {
+            console.log(`      → Todoist: ${rule.actions.project}${rule.actions.section ? ` / ${rule.actions.section}` : ''}`);
+          }
         });
         break;
 
+      case 'classifier':
+        // Local (offline) classifier management
+        const classifierSubCommand = process.argv[3];
+        try {
+          switch (classifierSubCommand) {
+            case 'stats':
+            case 'train':
+              await initializeApp();
+              const classifierStats = classifierSubCommand === 'train' ? trainLocalClassifier() : getLocalClassifierStats();
+              const classifierConfig = getLocalClassifierConfig();
+              console.log('🧮 Local Classifier:');
+              console.log(`  Mode: ${classifierConfig.mode} (threshold: ${classifierConfig.confidenceThreshold})`);
+              console.log(`  Training examples: ${classifierStats.examples} (${classifierStats.corrections} corrections, min ${classifierConfig.minExamples})`);
+              console.log(`  Vocabulary: ${classifierStats.vocabularySize} features`);
+              Object.entries(classifierStats.labelCounts).forEach(([label, count]) => {
+                console.log(`    ${label}: ${count}`);
+              });
+              break;
+            case 'test':
+              const testEmailId = process.argv[4];
+              if (!testEmailId) {
+                console.log('Usage: classifier test <emailId>');
+                break;
+              }
+              await initializeApp();
+              const testEmail = await getEmailById(testEmailId);
+              if (!testEmail) {
+                console.error(`❌ Email not found: ${testEmailId}`);
+                process.exit(1);
+              }
+              const localResult = classifyEmailLocally(testEmail!);
+              if (localResult) {
+                console.log(`🧮 ${localResult.suggestedLabel} (confidence: ${localResult.confidence})`);
+                console.log(`   Features: ${localResult.keywords.join(', ') || 'none'}`);
+              } else {
+                console.log('⚠️ Local classifier is not trained yet - process more emails with AI first');
+              }
+              break;
+            case undefined:
+            case 'help':
+            default:
+              console.log('Usage: classifier [stats|train|test <emailId>]');
+              console.log('  stats       - Show training data and model statistics');
+              console.log('  train       - Retrain the model from classification history');
+              console.log('  test <id>   - Classify an email locally without applying anything');
+          }
+        } catch (error) {
+          console.error('❌ Classifier command failed:', error);
+          process.exit(1);
+        }
+        break;
+
+      case 'review':
+        // Low-confidence review queue
+        const reviewSubCommand = process.argv[3];
+        const reviewId = process.argv[4];
+        try {
+          switch (reviewSubCommand) {
+            case 'list':
+              const reviewItems = await listReviewItems();
+              console.log(`📝 Pending Reviews (threshold: ${getReviewThreshold()}):`);
+              if (reviewItems.length === 0) {
+                console.log('  Nothing to review.');
+              }
+              reviewItems.forEach(item => {
+                const verdict = item.classification.isActionable ? 'actionable' : 'not actionable';
+                console.log(`  ${item.id}  ${item.subject || '(no subject)'}`);
+                console.log(`      From: ${item.from}`);
+                console.log(`      ${item.classification.source.toUpperCase()}: ${item.classification.label} - ${verdict} (confidence: ${item.classification.confidence})`);
+                console.log(`      Reasoning: ${item.classification.reasoning}`);
+                console.log(`      Proposed task: ${item.proposedTask.title} [p${item.proposedTask.priority}${item.proposedTask.dueDate ? `, due ${item.proposedTask.dueDate}` : ''}]`);
+              });
+              break;
+            case 'approve':
+            case 'edit':
+            case 'reject':
+              if (!reviewId) {
+                console.log(`Usage: review ${reviewSubCommand} <emailId>`);
+                break;
+              }
+              await initializeApp();
+              let reviewResult;
+              if (reviewSubCommand === 'reject') {
+                reviewResult = await rejectReviewItem(reviewId);
+              } else {
+                const priorityOption = getOption('priority');
+                if (priorityOption && !['1', '2', '3', '4'].includes(priorityOption)) {
+                  console.error('❌ --priority must be 1, 2, 3 or 4');
+                  process.exit(1);
+                }
+                reviewResult = await approveReviewItem(reviewId, reviewSubCommand === 'edit' ? {
+                  title: getOption('title'),
+                  description: getOption('description'),
+                  dueDate: getOption('due'),
+                  priority: priorityOption ? parseInt(priorityOption) as 1 | 2 | 3 | 4 : undefined
+                } : {});
+              }
+              if (reviewResult.success) {
+                console.log(reviewResult.taskId ? `✅ Task created: ${reviewResult.taskId}` : '✅ Email skipped');
+              } else {
+                console.error('❌ Review action failed:', reviewResult.error);
+                process.exit(1);
+              }
+              break;
+            case undefined:
+            case 'help':
+            default:
+              console.log('Usage: review [list|approve|reject|edit] <emailId>');
+              console.log('  list              - Show emails waiting for review');
+              console.log('  approve <id>      - Create the proposed task');
+              console.log('  reject <id>       - Skip the email without a task');
+              console.log('  edit <id> [--title T] [--description D] [--due D] [--priority 1-4]');
+              console.log('                    - Adjust the proposed task, then create it');
+          }
+        } catch (error) {
+          console.error('❌ Review command failed:', error instanceof Error ? error.message : error);
+          process.exit(1);
+        }
+        break;
+
+      case 'feedback':
+        // User corrections to agent decisions
+        const feedbackSubCommand = process.argv[3];
+        try {
+          switch (feedbackSubCommand) {
+            case 'scan':
+              await initializeApp();
+              const scanResult = await runFeedbackScan();
+              console.log(`✅ Feedback scan complete: ${scanResult.checked} emails checked, ${scanResult.corrections} corrections recorded`);
+              break;
+            case 'list':
+              const feedbackRecords = await listFeedback();
+              console.log('🔁 Recorded Corrections:');
+              if (feedbackRecords.length === 0) {
+                console.log('  No corrections recorded yet.');
+              }
+              feedbackRecords.slice(-20).forEach(record => {
+                const source = record.decision.type === 'rule' ? `rule ${record.decision.ruleId}` : record.decision.type;
+                console.log(`  ${record.emailId}  ${record.type}: ${record.originalLabel || 'unknown'} → ${record.correctedLabel} (${source}, ${new Date(record.detectedAt).toLocaleString()})`);
+              });
+              break;
+            case undefined:
+            case 'help':
+            default:
+              console.log('Usage: feedback [scan|list]');
+              console.log('  scan        - Check recent tasks for label corrections made in Gmail');
+              console.log('  list        - Show the latest recorded corrections');
+          }
+        } catch (error) {
+          console.error('❌ Feedback command failed:', error);
+          process.exit(1);
+        }
+        break;
+
+      case 'explain':
+        // Decision audit trail for one email
+        const explainId = process.argv[3];
+        if (!explainId) {
+          console.log('Usage: explain <emailId> [--json] [--full]');
+          break;
+        }
+        try {
+          const auditRecords = await getAuditRecords(explainId);
+          await initializeLedger();
+          await initializeTaskMappings();
+          const ledgerEntry = getLedgerEntry(explainId);
+          const mapping = getMappingForEmail(explainId);
+          const reviewItem = await getReviewItem(explainId);
+          const corrections = (await listFeedback()).filter(record => record.emailId === explainId);
+
+          if (process.argv.includes('--json')) {
+            console.log(JSON.stringify({ audit: auditRecords, ledger: ledgerEntry, taskMapping: mapping, review: reviewItem, feedback: corrections }, null, 2));
+            break;
+          }
+
+          console.log(`🔍 Decision path for email ${explainId}:`);
+          if (auditRecords.length === 0 && !ledgerEntry) {
+            console.log('  No record of this email - it has not been processed yet.');
+            break;
+          }
+          if (ledgerEntry) {
+            console.log(`  Ledger: ${ledgerEntry.status} (${ledgerEntry.source}, ${ledgerEntry.attempts} attempt(s), last ${new Date(ledgerEntry.updatedAt).toLocaleString()})`);
+          }
+          if (mapping) {
+            console.log(`  Task: ${mapping.taskId} (${mapping.status}, ${mapping.emailIds.length} email(s) in thread)`);
+          }
+          if (reviewItem) {
+            console.log(`  Review: ${reviewItem.status}${reviewItem.resolvedAt ? ` on ${new Date(reviewItem.resolvedAt).toLocaleString()}` : ''}`);
+          }
+          corrections.forEach(record => {
+            console.log(`  Correction: ${record.type} - ${record.originalLabel || 'unknown'} → ${record.correctedLabel} (${new Date(record.detectedAt).toLocaleString()})`);
+          });
+
+          const showFull = process.argv.includes('--full');
+          auditRecords.forEach((record, index) => {
+            console.log('');
+            console.log(`📋 Run ${index + 1}/${auditRecords.length} - ${new Date(record.timestamp).toLocaleString()} (${record.source}${record.correlationId ? `, correlation ${record.correlationId}` : ''}${record.durationMs !== undefined ? `, ${record.durationMs}ms` : ''})`);
+            if (record.from || record.subject) {
+              console.log(`  From: ${record.from || 'unknown'}`);
+              console.log(`  Subject: ${record.subject || '(no subject)'}`);
+            }
+            console.log('  Path:');
+            record.steps.forEach((step, stepIndex) => {
+              console.log(`    ${stepIndex + 1}. ${step}`);
+            });
+            if (record.rules && record.rules.length > 0) {
+              console.log('  Rules evaluated:');
+              record.rules.forEach(evaluation => {
+                const detail = evaluation.excluded
+                  ? 'excluded by keyword'
+                  : `confidence ${evaluation.confidence.toFixed(2)}${evaluation.matchedCriteria.length > 0 ? ` on ${evaluation.matchedCriteria.join(', ')}` : ''}`;
+                const stopped = evaluation.stopped ? ' (not considered - an earlier rule stopped processing)' : '';
+                console.log(`    ${evaluation.matched ? '✅' : '❌'} ${evaluation.ruleName} [${evaluation.ruleId}, priority ${evaluation.priority}] - ${detail}${stopped}`);
+              });
+            }
+            if (record.classification) {
+              const classification = record.classification;
+              console.log(`  Classification (${classification.classifier}): ${classification.label} - ${classification.isActionable ? 'actionable' : 'not actionable'}${classification.confidence !== undefined ? ` (confidence: ${classification.confidence})` : ''}`);
+              console.log(`    Reasoning: ${classification.reasoning}`);
+              if (classification.keywords.length > 0) {
+                console.log(`    Keywords: ${classification.keywords.join(', ')}`);
+              }
+              if (classification.llm) {
+                console.log(`    LLM: ${classification.llm.provider}/${classification.llm.model}, prompt hash ${classification.llm.promptHash}`);
+                if (classification.llm.error) {
+                  console.log(`    LLM error: ${classification.llm.error}`);
+                }
+                if (classification.llm.response) {
+                  const response = classification.llm.response.replace(/\s+/g, ' ');
+                  console.log(`    Response: ${showFull || response.length <= 200 ? response : `${response.substring(0, 200)}... (--full to show all)`}`);
+                }
+              }
+            }
+            if (record.labelsApplied.length > 0) {
+              console.log(`  Labels applied: ${record.labelsApplied.join(', ')}`);
+            }
+            const taskNote = record.taskId ? ` → task ${record.taskId}${record.updatedExistingTask ? ' (updated existing thread task)' : ''}` : '';
+            console.log(`  Outcome: ${record.outcome || 'unknown'}${taskNote}${record.error ? ` - ${record.error}` : ''}`);
+          });
+        } catch (error) {
+          console.error('❌ Explain command failed:', error);
+          process.exit(1);
+        }
+        break;
+
       case 'clear':
         // Clear AI learning history
         const subCommand = process.argv[3];
         if (subCommand === 'ai') {
-          clearHistory();
+          await clearHistory();
           console.log('🧹 AI learning history cleared');
         } else if (subCommand === 'stats') {
           resetProcessingStats();
@@ -191,6 +507,7 @@ async function main() {
               const runResult = await runManualBatchProcessing(maxEmails);
               if (runResult.success) {
                 console.log(`✅ Manual batch complete: ${runResult.processed} emails processed`);
+                printDryRunReport();
               } else {
                 console.error('❌ Manual batch failed:', runResult.error);
                 process.exit(1);
@@ -213,7 +530,7 @@ async function main() {
               console.log('Usage: batch [start|stop|run|stats|help]');
               console.log('  start       - Start automatic batch processing (15-minute intervals)');
               console.log('  stop        - Stop batch processing');
-              console.log('  run [N]     - Run manual batch processing (default N=10)');
+              console.log('  run [N]     - Run manual batch processing (default N=10, --dry-run to only report)');
               console.log('  stats       - Show batch processing statistics');
           }
         } catch (error) {
@@ -222,6 +539,123 @@ async function main() {
         }
         break;
 
+      case 'sync':
+        // Todoist → Gmail task sync
+        const syncSubCommand = process.argv[3];
+        try {
+          switch (syncSubCommand) {
+            case 'run':
+              const syncResult = await runManualTaskSync();
+              if (syncResult.success && syncResult.stats) {
+                console.log(`✅ Task sync complete: ${syncResult.stats.tasksCompleted} completed, ${syncResult.stats.tasksDeleted} deleted, ${syncResult.stats.emailsUpdated} emails updated`);
+              } else {
+                console.error('❌ Task sync failed:', syncResult.error);
+                process.exit(1);
+              }
+              break;
+            case 'status':
+              const syncConfig = getTaskSyncConfig();
+              await initializeTaskMappings();
+              console.log('🔄 Task Sync:');
+              console.log(`  Interval: ${syncConfig.intervalMinutes} minutes (${syncConfig.enabled ? 'enabled' : 'disabled'})`);
+              console.log(`  On completed: ${syncConfig.onCompleted.join(', ') || 'none'}`);
+              console.log(`  On deleted: ${syncConfig.onDeleted.join(', ') || 'none'}`);
+              console.log(`  Open tasks: ${listTaskMappings('open').length}`);
+              console.log(`  Completed tasks: ${listTaskMappings('completed').length}`);
+              console.log(`  Deleted tasks: ${listTaskMappings('deleted').length}`);
+              break;
+            case undefined:
+            case 'help':
+            default:
+              console.log('Usage: sync [run|status|help]');
+              console.log('  run         - Check Todoist now and update emails of completed/deleted tasks');
+              console.log('  status      - Show sync configuration and tracked tasks');
+          }
+        } catch (error) {
+          console.error('❌ Sync command failed:', error);
+          process.exit(1);
+        }
+        break;
+
+      case 'jobs':
+        // Durable webhook job queue
+        const jobsSubCommand = process.argv[3];
+        try {
+          switch (jobsSubCommand) {
+            case 'list':
+              const jobStatus = process.argv[4] as JobStatus | undefined;
+              if (jobStatus && !['pending', 'running', 'completed', 'dead'].includes(jobStatus)) {
+                console.error('❌ Status must be one of: pending, running, completed, dead');
+                process.exit(1);
+              }
+              const jobs = await listJobs(jobStatus);
+              console.log(`📥 Jobs${jobStatus ? ` (${jobStatus})` : ''}:`);
+              if (jobs.length === 0) {
+                console.log('  No jobs found.');
+              }
+              jobs.slice(0, 50).forEach(job => {
+                console.log(`  ${job.id}  ${job.status.padEnd(9)} email ${job.emailId}  attempts ${job.attempts}/${job.maxAttempts}`);
+                if (job.status === 'pending' && job.attempts > 0) {
+                  console.log(`    Next attempt: ${new Date(job.nextRunAt).toLocaleString()}`);
+                }
+                if (job.lastError) {
+                  console.log(`    Last error: ${job.lastError}`);
+                }
+              });
+              break;
+            case 'show':
+              const jobId = process.argv[4];
+              const job = jobId ? await getJob(jobId) : undefined;
+              if (!job) {
+                console.error(`❌ No job found with ID ${jobId || '(missing)'}`);
+                process.exit(1);
+              }
+              console.log(JSON.stringify(job, null, 2));
+              break;
+            case 'retry':
+              const retryTarget = process.argv[4];
+              if (!retryTarget) {
+                console.error('Usage: jobs retry <jobId|all>');
+                process.exit(1);
+              }
+              const retried = await retryJobs(retryTarget);
+              console.log(`✅ ${retried} job(s) queued for retry - they run on the next worker poll`);
+              break;
+            case 'purge':
+              const purgeTarget = (process.argv[4] || 'completed') as 'completed' | 'dead' | 'all';
+              if (!['completed', 'dead', 'all'].includes(purgeTarget)) {
+                console.error('Usage: jobs purge [completed|dead|all]');
+                process.exit(1);
+              }
+              const purged = await purgeJobs(purgeTarget);
+              console.log(`🗑️ Purged ${purged} ${purgeTarget === 'all' ? 'finished' : purgeTarget} job(s)`);
+              break;
+            case 'stats':
+              const jobStats = await getJobQueueStats();
+              const jobConfig = getJobQueueConfig();
+              console.log('📥 Job Queue:');
+              console.log(`  Pending: ${jobStats.pending}`);
+              console.log(`  Running: ${jobStats.running}`);
+              console.log(`  Completed: ${jobStats.completed}`);
+              console.log(`  Dead-letter: ${jobStats.dead}`);
+              console.log(`  Concurrency: ${jobConfig.concurrency}, max attempts: ${jobConfig.maxAttempts}, backoff base: ${jobConfig.backoffBaseMs / 1000}s`);
+              break;
+            case undefined:
+            case 'help':
+            default:
+              console.log('Usage: jobs [list|show|retry|purge|stats|help]');
+              console.log('  list [status]       - List jobs (pending, running, completed, dead)');
+              console.log('  show <jobId>        - Show a job in full');
+              console.log('  retry <jobId|all>   - Requeue a job, or every dead-letter job');
+              console.log('  purge [status]      - Remove completed (default), dead or all finished jobs');
+              console.log('  stats               - Show queue counts and configuration');
+          }
+        } catch (error) {
+          console.error('❌ Jobs command failed:', error);
+          process.exit(1);
+        }
+        break;
+
       case 'connect':
         // Account connection management
         const connectSubCommand = process.argv[3];
@@ -306,14 +740,24 @@ async function main() {
         console.log('🚀 Email Processing:');
         console.log('  start       - Start real-time processing with webhooks');
         console.log('  process [N] - Run manual email processing (batch mode, default N=5)');
+        console.log('  --dry-run   - With process, batch run or start: record labels and tasks instead of applying them');
+        console.log('                (--report json prints the dry-run report as JSON)');
         console.log('  batch       - Manage batch processing (15-minute intervals)');
+        console.log('  sync        - Sync completed Todoist tasks back to Gmail');
         console.log('  test        - Test connections and basic functionality');
+        console.log('  review      - Approve or reject low-confidence classifications');
         console.log('');
         console.log('📊 Monitoring:');
         console.log('  status      - Show agent and connection status');
         console.log('  stats       - Show processing and AI statistics');
         console.log('  patterns    - Show AI learning patterns');
-        console.log('  rules       - Show active email processing rules');
+        console.log('  rules       - Show active email processing rules (rules test to dry-run them)');
+        console.log('  rules add "<description>" - Draft a rule from a sentence with the LLM, dry-run it and save it');
+        console.log('  rules suggest / rules accept <id> - List rules learned from AI classifications and turn one into a rule');
+        console.log('  classifier  - Inspect or retrain the local offline classifier');
+        console.log('  feedback    - Detect and list user corrections to agent decisions');
+        console.log('  explain     - Show the decision path for an email (explain <emailId>)');
+        console.log('  jobs        - Inspect, retry and purge queued webhook jobs');
         console.log('');
         console.log('🧹 Maintenance:');
         console.log('  clear <type>- Clear AI history or statistics');
@@ -322,12 +766,28 @@ async function main() {
         console.log('Environment Variables:');
         console.log('  COMPOSIO_API_KEY      - Required: Your Composio API key');
         console.log('  OPENAI_API_KEY        - Optional: OpenAI API key for AI classification');
+        console.log('  LLM_PROVIDER          - Optional: openai|openai-compatible|azure (default: openai)');
+        console.log('  LLM_BASE_URL          - Optional: OpenAI-compatible server URL, e.g. http://localhost:11434/v1');
+        console.log('  LLM_MODEL             - Optional: Model name (default: gpt-4o-mini)');
+        console.log('  AZURE_OPENAI_*        - Optional: ENDPOINT, API_KEY, DEPLOYMENT, API_VERSION for Azure');
+        console.log('  LOCAL_CLASSIFIER_MODE - Optional: off|fallback|first-pass|standalone (default: fallback)');
+        console.log('  REVIEW_CONFIDENCE_THRESHOLD - Optional: Review classifications below this confidence (default: 0.6, 0 disables)');
         console.log('  COMPOSIO_USER_ID      - Optional: User ID (default: "default")');
         console.log('  WEBHOOK_PORT          - Optional: Webhook server port (default: 3001)');
+        console.log('  WEBHOOK_SECRET        - Required for webhooks: Composio webhook signing secret');
+        console.log('  ADMIN_API_TOKEN       - Optional: Enables the /api admin endpoints (Bearer token)');
+        console.log('  DATA_DIR              - Optional: Directory for local agent data (default: ./data)');
+        console.log('  RULES_FILE            - Optional: Rules file path (default: <DATA_DIR>/rules.json)');
+        console.log('  RULE_EVALUATION_MODE  - Optional: first-match|all-matches (default: first-match)');
+        console.log('  RULE_CONFLICT_STRATEGY - Optional: highest-priority|skip-wins|action-wins|weighted-score (default: highest-priority)');
+        console.log('  THREAD_FOLLOWUP_MODE  - Optional: comment|due|comment_and_due|new_task (default: comment)');
+        console.log('  THREAD_REOPEN_COMPLETED - Optional: Reopen completed tasks on new replies (default: false)');
+        console.log('  TASK_SYNC_ON_COMPLETE - Optional: mark_read,archive,label_done,remove_processed (default: label_done)');
+        console.log('  TASK_SYNC_ON_DELETE   - Optional: Same actions for deleted tasks (default: none)');
         console.log('');
         console.log('Features:');
         console.log('  • Rule-based email classification');
-        console.log('  • AI-powered smart categorization (with OpenAI key)');
+        console.log('  • AI-powered smart categorization (OpenAI, Azure or local LLM)');
         console.log('  • Real-time Gmail webhook processing');
         console.log('  • Automatic Todoist task creation');
         console.log('  • Learning from email patterns');
@@ -340,16 +800,328 @@ async function main() {
   }
 }
 
+// Read a yes/no answer from the terminal (no when stdin is not interactive)
+const confirm = async (question: string): Promise<boolean> => {
+  if (!process.stdin.isTTY) {
+    console.log('ℹ️ Not an interactive terminal - rerun with --yes to confirm');
+    return false;
+  }
+  const prompt = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await prompt.question(question);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    prompt.close();
+  }
+};
+
+// rules add: draft a rule from a plain-language description, dry-run it against recent mail and save it on confirmation
+const runRulesAdd = async (): Promise<void> => {
+  const description = process.argv[4];
+  if (!description || description.startsWith('--')) {
+    console.log('Usage: rules add "<description>" [--query "<gmail query>"] [--max N] [--yes]');
+    console.log('  Drafts a rule with the configured LLM, shows it and how it would change outcomes on recent mail, then asks to save it');
+    console.log('  --query <q>   Emails to dry-run against (default: newer_than:7d)');
+    console.log('  --max N       Maximum emails to dry-run against (default: 50)');
+    console.log('  --yes         Save without asking');
+    console.log('  Example: rules add "anything from billing@acme.com mentioning invoice should go to the Finance project with priority 3"');
+    return;
+  }
+
+  try {
+    const init = await initializeApp();
+    if (!init.success) {
+      throw new Error(init.error);
+    }
+    if (!isAIAvailable()) {
+      throw new Error('No LLM available - set OPENAI_API_KEY, LLM_BASE_URL or AZURE_OPENAI_*');
+    }
+    await initializeRuleEngine();
+
+    console.log('🤖 Drafting rule...');
+    const draft = await draftRuleFromDescription(description);
+    console.log(`   LLM: ${draft.llm.provider}/${draft.llm.model}, prompt hash ${draft.llm.promptHash}`);
+    // The rule is saved exactly as dry-run below - always active
+    const rule = { ...draft.rule, active: true };
+    console.log(JSON.stringify(rule, null, 2));
+    if (draft.errors.length > 0) {
+      console.error('❌ The drafted rule is invalid:');
+      draft.errors.forEach(error => console.error(`  - ${error}`));
+      process.exit(1);
+    }
+
+    const project = rule.actions.project;
+    if (project && !(await findProjectIdByName(project))) {
+      console.log(`⚠️ Todoist project "${project}" not found - tasks would go to the Inbox`);
+    }
+
+    // Dry run: which recent emails the rule matches and whose outcome it would change
+    const candidate: FilterRule = { ...rule, id: 'draft', stats: { matched: 0, created: new Date() } };
+    const query = getOption('query') || 'newer_than:7d';
+    const emails = await loadTestEmails({ type: 'query', query, maxResults: parseInt(getOption('max') || '50') });
+    const matches = testRules(emails, [candidate]).filter(({ result }) => result.matched);
+    console.log(`🧪 Dry run: the rule matches ${matches.length} of ${emails.length} email(s) for "${query}"`);
+    matches.forEach(({ email, result }) => {
+      console.log(`  📧 ${email.id}  ${email.subject || '(no subject)'}`);
+      console.log(`      From: ${email.from} (matched ${result.matchedCriteria.join(', ')})`);
+    });
+
+    const currentRules = getRules();
+    const changed = diffRules(emails, currentRules, [...currentRules, candidate]).filter(diff => diff.changed);
+    changed.forEach(diff => {
+      console.log(`  🔀 ${diff.email.id}  ${diff.email.subject || '(no subject)'}`);
+      console.log(`      - ${describeRuleOutcome(diff.current)}`);
+      console.log(`      + ${describeRuleOutcome(diff.candidate)}`);
+    });
+    console.log(`📊 ${changed.length} of ${emails.length} outcome(s) would change`);
+
+    if (!process.argv.includes('--yes') && !(await confirm('💾 Save this rule? [y/N] '))) {
+      console.log('🚫 Rule not saved');
+      return;
+    }
+    const ruleId = await addCustomRule(rule);
+    console.log(`✅ Saved rule ${ruleId} to ${getRulesFilePath()}`);
+  } catch (error) {
+    console.error('❌ Rule authoring failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+// rules suggest | rules accept <id>: surface rules learned from the AI classification history
+const runRuleSuggestions = async (subCommand: 'suggest' | 'accept', suggestionId?: string): Promise<void> => {
+  try {
+    // Suggestions only need the local history and rules file - no Gmail or LLM connection
+    await loadClassificationHistory();
+
+    if (subCommand === 'accept') {
+      if (!suggestionId) {
+        console.log('Usage: rules accept <suggestionId> [--yes]  (IDs are listed by rules suggest; --yes skips the confirmation for skip rules)');
+        return;
+      }
+      const suggestion = await getRuleSuggestion(suggestionId);
+      if (suggestion) {
+        console.log(`💡 ${suggestion.type} ${suggestion.pattern} → ${suggestion.suggestedLabel}: ${describeSuggestionImpact(suggestion)}`);
+        if (suggestion.skipAI && !process.argv.includes('--yes') && !(await confirm('⚠️ Matching emails will be skipped without asking the AI. Create this rule? [y/N] '))) {
+          console.log('🚫 Rule not created');
+          return;
+        }
+      }
+      const rule = await acceptRuleSuggestion(suggestionId);
+      if (!rule) {
+        console.error(`❌ Suggestion ${suggestionId} not found (it may already be covered by a rule)`);
+        process.exit(1);
+      }
+      console.log(`✅ Created rule ${rule.id}: ${rule.name} → ${rule.actions.label}${rule.actions.skipAI ? ' (skip AI)' : ''}`);
+      console.log(`   Saved to ${getRulesFilePath()}`);
+      return;
+    }
+
+    const suggestions = await getOpenRuleSuggestions();
+    if (suggestions.length === 0) {
+      console.log('💡 No rule suggestions yet - they appear once the AI classifies a sender or keyword consistently');
+      return;
+    }
+    console.log(`💡 Rule suggestions (${suggestions.length}):`);
+    suggestions.forEach(suggestion => {
+      console.log(`  [${suggestion.id}] ${suggestion.type} ${suggestion.pattern} → ${suggestion.suggestedLabel} (${Math.round(suggestion.confidence * 100)}% confidence, ${suggestion.sampleCount} emails)`);
+      console.log(`      ${describeSuggestionImpact(suggestion)}`);
+      suggestion.samples.forEach(sample => {
+        console.log(`      📧 ${sample.subject || '(no subject)'} - ${sample.from}`);
+      });
+    });
+    console.log('');
+    console.log('Accept one with: rules accept <id>');
+  } catch (error) {
+    console.error('❌ Rule suggestions failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+// What accepting a suggestion would do to the emails already classified
+const describeSuggestionImpact = (suggestion: RuleSuggestionPreview): string => {
+  const conflicts = suggestion.historyConflicts > 0 ? `, ${suggestion.historyConflicts} of them classified differently` : '';
+  return `would match ${suggestion.historyMatches} classified email(s)${conflicts}${suggestion.skipAI ? ' - skips the AI' : ''}`;
+};
+
+// rules test: evaluate rules against Gmail messages or .eml files without applying anything
+const runRulesTest = async (): Promise<void> => {
+  const query = getOption('query');
+  const emailId = getOption('id');
+  const emlPaths = getOptionValues('eml');
+  const candidateFile = getOption('diff');
+
+  let source: RuleTestSource;
+  if (emlPaths.length > 0) {
+    source = { type: 'eml', paths: emlPaths };
+  } else if (emailId) {
+    source = { type: 'id', emailId };
+  } else if (query) {
+    source = { type: 'query', query, maxResults: parseInt(getOption('max') || '20') };
+  } else {
+    console.log('Usage: rules test (--query "<gmail query>" [--max N] | --id <emailId> | --eml <file|dir>...) [--diff <rules.json>] [--verbose]');
+    console.log('  Evaluates every active rule and shows the winner - nothing is labeled and no tasks are created');
+    console.log('  --diff <file>   Compare outcomes between the current rules and a candidate rules file');
+    console.log('  --verbose       Show every rule score, not just the rules that scored');
+    return;
+  }
+
+  try {
+    // Gmail sources need Composio; .eml files are tested fully offline
+    if (source.type !== 'eml') {
+      const init = await initializeApp();
+      if (!init.success) {
+        throw new Error(init.error);
+      }
+    }
+    await initializeRuleEngine();
+    const currentRules = getRules();
+    const emails = await loadTestEmails(source);
+    if (emails.length === 0) {
+      console.log('📧 No emails to test');
+      return;
+    }
+
+    if (candidateFile) {
+      const candidate = await loadCandidateRules(candidateFile);
+      candidate.errors.forEach(message => console.log(`⚠️ Skipped invalid candidate rule - ${message}`));
+
+      const diffs = diffRules(emails, currentRules, candidate.rules);
+      const changed = diffs.filter(diff => diff.changed);
+      console.log(`🧪 Rule diff: ${emails.length} email(s), current rules (${getRulesFilePath()}) vs ${candidateFile}`);
+      changed.forEach(diff => {
+        console.log(`  📧 ${diff.email.id}  ${diff.email.subject || '(no subject)'}`);
+        console.log(`      From: ${diff.email.from}`);
+        console.log(`      - ${describeRuleOutcome(diff.current)}`);
+        console.log(`      + ${describeRuleOutcome(diff.candidate)}`);
+      });
+      console.log(`📊 ${changed.length} of ${emails.length} outcome(s) would change`);
+      return;
+    }
+
+    const results = testRules(emails, currentRules);
+    const verbose = process.argv.includes('--verbose');
+    console.log(`🧪 Rule test: ${emails.length} email(s) against ${currentRules.filter(rule => rule.active).length} active rules (${getRulesFilePath()})`);
+    results.forEach(({ email, result }) => {
+      console.log(`  📧 ${email.id}  ${email.subject || '(no subject)'}`);
+      console.log(`      From: ${email.from}`);
+      if (verbose && email.attachments && email.attachments.length > 0) {
+        console.log(`      Attachments: ${email.attachments.map(attachment => `${attachment.filename} (${attachment.mimeType}, ${attachment.size} bytes)`).join(', ')}`);
+      }
+      printRuleScores(result, verbose);
+      console.log(`      → ${describeRuleOutcome(result)}`);
+    });
+
+    const wins: { [ruleName: string]: number } = {};
+    results.forEach(({ result }) => {
+      const key = result.rule ? result.rule.name : 'No rule matched';
+      wins[key] = (wins[key] || 0) + 1;
+    });
+    console.log('📊 Outcomes:');
+    Object.entries(wins).sort((a, b) => b[1] - a[1]).forEach(([name, count]) => {
+      console.log(`  ${name}: ${count}`);
+    });
+  } catch (error) {
+    console.error('❌ Rule test failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+const printRuleScores = (result: RuleMatchResult, verbose: boolean): void => {
+  const evaluations = result.evaluations || [];
+  const shown = verbose ? evaluations : evaluations.filter(evaluation => evaluation.confidence > 0 || evaluation.excluded);
+  const contributors = (result.contributingRules || []).map(rule => rule.id);
+  shown.forEach(evaluation => {
+    const winner = result.rule?.id === evaluation.ruleId;
+    const marker = winner ? '🏆' : contributors.includes(evaluation.ruleId) ? '➕' : evaluation.matched ? '✅' : '  ';
+    const detail = evaluation.excluded
+      ? 'excluded by keyword'
+      : `${evaluation.confidence.toFixed(2)}${evaluation.matchedCriteria.length > 0 ? ` (${evaluation.matchedCriteria.join(', ')})` : ''}`;
+    console.log(`      ${marker} ${evaluation.ruleName} [priority ${evaluation.priority}] ${detail}${evaluation.stopped ? ' - stopped' : ''}`);
+  });
+  if (shown.length < evaluations.length) {
+    console.log(`         ${evaluations.length - shown.length} other rule(s) scored 0`);
+  }
+};
+
+// Print what a --dry-run would have done (no-op otherwise)
+const printDryRunReport = (): void => {
+  if (!isDryRun()) return;
+
+  const report = getDryRunReport();
+  if (getOption('report') === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  const allActions = [...report.emails.flatMap(email => email.actions), ...report.otherActions];
+  const taskCount = allActions.filter(action => action.type === 'create_task').length;
+  const labelCount = allActions.filter(action => action.type === 'add_label' || action.type === 'remove_label').length;
+  console.log('');
+  console.log(`🧪 Dry-run report: ${report.emails.length} email(s), ${taskCount} task(s) and ${labelCount} label change(s) would be made`);
+
+  report.emails.forEach(email => {
+    console.log(`  📧 ${email.emailId}  ${email.subject || '(no subject)'}`);
+    if (email.from) {
+      console.log(`      From: ${email.from}`);
+    }
+    if (email.decision || email.outcome) {
+      const reasoning = email.decision?.reasoning ? ` - ${email.decision.reasoning}` : '';
+      console.log(`      Decision: ${email.decision?.type || 'none'}${reasoning} → ${email.outcome || 'unknown'}${email.error ? ` (${email.error})` : ''}`);
+    }
+    email.actions.forEach(action => printDryRunAction(action));
+  });
+
+  if (report.otherActions.length > 0) {
+    console.log('  Other actions:');
+    report.otherActions.forEach(action => printDryRunAction(action));
+  }
+};
+
+const printDryRunAction = (action: DryRunAction): void => {
+  switch (action.type) {
+    case 'add_label':
+      console.log(`      🏷️ + ${action.label}`);
+      break;
+    case 'remove_label':
+      console.log(`      🏷️ - ${action.label}`);
+      break;
+    case 'create_label':
+      console.log(`      🏷️ Create Gmail label ${action.label}`);
+      break;
+    case 'create_task':
+    case 'queue_review':
+      const task = action.taskData;
+      const details = [
+        `p${task?.priority}`,
+        task?.dueDate ? `due ${task.dueDate}` : '',
+        task?.projectId ? `project ${task.projectId}` : '',
+        task?.sectionId ? `section ${task.sectionId}` : '',
+        task?.labels?.length ? `labels ${task.labels.join(', ')}` : ''
+      ].filter(Boolean).join(', ');
+      console.log(`      ${action.type === 'create_task' ? '📋 Task' : '📝 Review, proposed task'}: "${task?.title}" [${details}]`);
+      if (task?.description) {
+        const description = task.description.replace(/\s+/g, ' ');
+        console.log(`         ${description.length > 160 ? `${description.substring(0, 160)}...` : description}`);
+      }
+      break;
+    case 'update_task':
+      console.log(`      📋 ${action.detail}`);
+      break;
+  }
+};
+
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n🛑 Received SIGINT, shutting down gracefully...');
   await shutdown();
+  printDryRunReport();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
   await shutdown();
+  printDryRunReport();
   process.exit(0);
 });
 
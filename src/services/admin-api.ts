@@ -0,0 +1,219 @@
+// Admin API - authenticated JSON endpoints against the live agent process (mounted at /api on the webhook server)
+import crypto from 'crypto';
+import express, { Request, Response, NextFunction } from 'express';
+import { createLogger } from '../core/logger';
+import { initializeRuleEngine, getRules, getRule, addCustomRule, updateRule, deleteRule, FilterRule } from './rule-engine';
+import { validateRule } from './rule-store';
+import { processEmail, getProcessingStats, getRecentResults } from './email-processor';
+import { runManualBatch, getBatchProcessingStats, getBatchConfig } from './batch-processor';
+import { checkConnectionStatus } from './account-manager';
+import { getClassificationStats, getSenderPatterns } from './ai-service';
+import { getTaskSyncStats, getTaskSyncConfig } from './task-sync';
+import { getJobQueueStats } from './job-queue';
+import { getOpenRuleSuggestions, getRuleSuggestion, acceptRuleSuggestion } from './rule-suggestions';
+
+const log = createLogger('admin-api');
+
+// Fields a client may set on a rule - id and stats are owned by the agent
+const EDITABLE_RULE_FIELDS = ['name', 'description', 'priority', 'active', 'criteria', 'matchThreshold', 'stopProcessing', 'actions'] as const;
+
+// Admin API token (ADMIN_API_TOKEN) - the API is disabled when unset
+export const getAdminApiToken = (): string | undefined => {
+  return process.env.ADMIN_API_TOKEN || undefined;
+};
+
+// Require "Authorization: Bearer <ADMIN_API_TOKEN>" on every admin request
+const requireAdminToken = (req: Request, res: Response, next: NextFunction): void => {
+  const token = getAdminApiToken();
+  if (!token) {
+    res.status(503).json({ success: false, error: 'Admin API disabled - set ADMIN_API_TOKEN' });
+    return;
+  }
+
+  const header = req.headers.authorization || '';
+  const provided = header.startsWith('Bearer ') ? header.substring(7) : '';
+  if (!provided || !safeEqual(provided, token)) {
+    log.warn(`🔒 Rejected admin API request from ${req.ip}: ${req.method} ${req.path}`);
+    res.status(401).json({ success: false, error: 'Invalid or missing admin token' });
+    return;
+  }
+
+  next();
+};
+
+// Wrap async handlers so thrown errors become 500 responses
+const handle = (handler: (req: Request, res: Response) => Promise<void>) => {
+  return (req: Request, res: Response): void => {
+    handler(req, res).catch(error => {
+      log.error(`❌ Admin API error on ${req.method} ${req.path}:`, error);
+      res.status(500).json({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+    });
+  };
+};
+
+// Build the admin router
+export const createAdminRouter = (): express.Router => {
+  const router = express.Router();
+  router.use(requireAdminToken);
+
+  // Rules (the engine may not be loaded yet if nothing has been processed)
+  router.use('/rules', (_req, _res, next) => {
+    initializeRuleEngine().then(() => next(), next);
+  });
+
+  router.get('/rules', handle(async (_req, res) => {
+    res.json({ success: true, rules: getRules() });
+  }));
+
+  // Suggestions come before /rules/:id so "suggestions" is not taken for a rule ID
+  router.get('/rules/suggestions', handle(async (_req, res) => {
+    res.json({ success: true, suggestions: await getOpenRuleSuggestions() });
+  }));
+
+  // Skip suggestions turn the AI off for every match, so they need { "confirm": true } after the client has seen the impact
+  router.post('/rules/suggestions/:id/accept', handle(async (req, res) => {
+    const suggestion = await getRuleSuggestion(req.params.id);
+    if (suggestion?.skipAI && req.body?.confirm !== true) {
+      res.status(409).json({ success: false, error: 'Skip suggestions must be confirmed with { "confirm": true }', suggestion });
+      return;
+    }
+
+    const rule = await acceptRuleSuggestion(req.params.id);
+    if (!rule) {
+      res.status(404).json({ success: false, error: `Suggestion ${req.params.id} not found` });
+      return;
+    }
+    res.status(201).json({ success: true, rule });
+  }));
+
+  router.get('/rules/:id', handle(async (req, res) => {
+    const rule = getRule(req.params.id);
+    if (!rule) {
+      res.status(404).json({ success: false, error: `Rule ${req.params.id} not found` });
+      return;
+    }
+    res.json({ success: true, rule });
+  }));
+
+  router.post('/rules', handle(async (req, res) => {
+    const fields = pickRuleFields(req.body);
+    const candidate = { priority: 50, active: true, description: '', ...fields };
+    const errors = validateRule({ ...candidate, id: 'new' });
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, errors });
+      return;
+    }
+
+    const id = await addCustomRule(candidate as Omit<FilterRule, 'id' | 'stats'>);
+    res.status(201).json({ success: true, rule: getRule(id) });
+  }));
+
+  router.put('/rules/:id', handle(async (req, res) => {
+    const existing = getRule(req.params.id);
+    if (!existing) {
+      res.status(404).json({ success: false, error: `Rule ${req.params.id} not found` });
+      return;
+    }
+
+    const updates = pickRuleFields(req.body);
+    const errors = validateRule({ ...existing, ...updates });
+    if (errors.length > 0) {
+      res.status(400).json({ success: false, errors });
+      return;
+    }
+
+    await updateRule(req.params.id, updates);
+    res.json({ success: true, rule: getRule(req.params.id) });
+  }));
+
+  router.delete('/rules/:id', handle(async (req, res) => {
+    const deleted = await deleteRule(req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, error: `Rule ${req.params.id} not found` });
+      return;
+    }
+    res.json({ success: true, deleted: req.params.id });
+  }));
+
+  // Stats
+  router.get('/stats', handle(async (_req, res) => {
+    res.json({
+      success: true,
+      processing: getProcessingStats(),
+      batch: getBatchProcessingStats(),
+      taskSync: getTaskSyncStats(),
+      jobs: await getJobQueueStats(),
+      classifications: getClassificationStats()
+    });
+  }));
+
+  router.get('/status', handle(async (_req, res) => {
+    res.json({
+      success: true,
+      batch: { ...getBatchProcessingStats(), config: getBatchConfig() },
+      taskSync: { ...getTaskSyncStats(), config: getTaskSyncConfig() },
+      jobs: await getJobQueueStats()
+    });
+  }));
+
+  // Calls Composio, so kept separate from the frequently polled endpoints
+  router.get('/connections', handle(async (_req, res) => {
+    const status = await checkConnectionStatus();
+    res.json({ success: true, ...status });
+  }));
+
+  router.get('/results/recent', handle(async (req, res) => {
+    const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 50);
+    res.json({ success: true, results: getRecentResults(limit) });
+  }));
+
+  router.get('/patterns', handle(async (_req, res) => {
+    res.json({ success: true, patterns: getSenderPatterns() });
+  }));
+
+  // Manual runs
+  router.post('/batch/run', handle(async (req, res) => {
+    if (getBatchProcessingStats().isRunning) {
+      res.status(409).json({ success: false, error: 'Batch processing is already running' });
+      return;
+    }
+
+    const maxEmails = req.body?.maxEmails !== undefined ? parseInt(req.body.maxEmails) : undefined;
+    if (maxEmails !== undefined && (isNaN(maxEmails) || maxEmails < 1)) {
+      res.status(400).json({ success: false, error: 'maxEmails must be a positive number' });
+      return;
+    }
+
+    const stats = await runManualBatch(maxEmails);
+    res.json({ success: true, batch: stats });
+  }));
+
+  router.post('/emails/:id/process', handle(async (req, res) => {
+    const result = await processEmail(req.params.id, {
+      emailId: req.params.id,
+      source: 'manual',
+      timestamp: new Date()
+    });
+    res.status(result.success ? 200 : 422).json({ success: result.success, result });
+  }));
+
+  return router;
+};
+
+// Only copy editable rule fields from a request body
+const pickRuleFields = (body: any): Partial<FilterRule> => {
+  const fields: any = {};
+  if (!body || typeof body !== 'object') return fields;
+  EDITABLE_RULE_FIELDS.forEach(field => {
+    // null clears an optional field (e.g. stopProcessing back to the mode default)
+    if (body[field] !== undefined) fields[field] = body[field] === null ? undefined : body[field];
+  });
+  return fields;
+};
+
+// Constant-time token comparison (also guards /metrics)
+export const safeEqual = (a: string, b: string): boolean => {
+  const hashA = crypto.createHash('sha256').update(a).digest();
+  const hashB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(hashA, hashB);
+};
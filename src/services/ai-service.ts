@@ -1,5 +1,14 @@
 // Phase 3: AI Classification Service - functional approach following gmail-todo-agent logic
+import crypto from 'crypto';
 import { EmailData } from '../core/types';
+import { getDataPath, readJsonFile, writeJsonFile } from '../core/storage';
+import { createLogger } from '../core/logger';
+import { isDryRun } from './dry-run';
+import { createLLMProvider, getLLMConfigFromEnv, extractJsonText, LLMMessage, LLMProvider, LLMProviderConfig } from './llm-provider';
+import { validateRule } from './rule-store';
+import type { FilterRule } from './rule-engine';
+
+const log = createLogger('ai-service');
 
 // Types matching original ai-service.ts
 export interface AIClassificationResult {
@@ -20,59 +29,131 @@ export interface AIClassificationResult {
     urgencyLevel: 'low' | 'medium' | 'high';
     timeframe?: string;
   };
+  llm?: LLMCallDetails; // Set when the result came from an LLM call
+}
+
+// What was sent to and received from the LLM (kept for the decision audit trail)
+export interface LLMCallDetails {
+  provider: string;
+  model: string;
+  promptHash: string;
+  response?: string;
+  error?: string;
+}
+
+// A rule drafted from a plain-language description - errors are empty when the rule passed validation
+export interface RuleDraft {
+  rule: Omit<FilterRule, 'id' | 'stats'>;
+  errors: string[];
+  llm: LLMCallDetails;
+}
+
+// A rule the classification history suggests (see getSuggestedRules)
+export interface RuleSuggestion {
+  id: string;
+  type: 'sender' | 'keyword';
+  pattern: string; // Sender domain (full address on freemail/shared domains) or keyword
+  suggestedLabel: string;
+  confidence: number;
+  sampleCount: number;
+  samples: Array<{ emailId: string; from: string; subject: string; snippet?: string; timestamp: string }>;
 }
 
 export interface LearningData {
   emailId: string;
   from: string;
   subject: string;
+  snippet?: string;
   classification: string;
   confidence: number;
   keywords: string[];
   timestamp: Date;
+  correctedLabel?: string; // Set when the user corrected the AI decision
+  correctedAt?: Date;
 }
 
 // Global AI service state (functional approach)
 let isInitialized = false;
 let classificationHistory: LearningData[] = [];
-let openaiApiKey = '';
-let modelName = 'gpt-4o-mini';
+let historyVersion = 0;
+let isHistoryLoaded = false;
+let llmProvider: LLMProvider | null = null;
+
+const MAX_HISTORY = 1000;
+const getHistoryFilePath = (): string => getDataPath('classification-history.json');
+
+// Load persisted classification history (AI decisions and user corrections)
+export const loadClassificationHistory = async (): Promise<void> => {
+  if (isHistoryLoaded) return;
 
-// Initialize AI service
+  try {
+    const records = await readJsonFile<LearningData[]>(getHistoryFilePath());
+    classificationHistory = (records || []).map(record => ({
+      ...record,
+      timestamp: new Date(record.timestamp),
+      correctedAt: record.correctedAt ? new Date(record.correctedAt) : undefined
+    }));
+    historyVersion++;
+  } catch (error) {
+    log.error('❌ Failed to load classification history:', error);
+  }
+  isHistoryLoaded = true;
+};
+
+// Save classification history to disk
+const saveClassificationHistory = async (): Promise<void> => {
+  historyVersion++;
+  try {
+    await writeJsonFile(getHistoryFilePath(), classificationHistory);
+  } catch (error) {
+    log.error('❌ Failed to save classification history:', error);
+  }
+};
+
+// Initialize AI service (provider settings come from LLM_* / AZURE_OPENAI_* environment variables)
 export const initializeAI = async (apiKey?: string, model?: string): Promise<{success: boolean, error?: string}> => {
   if (isInitialized) {
     return { success: true }; // Already initialized
   }
 
   try {
-    openaiApiKey = apiKey || process.env.OPENAI_API_KEY || '';
-    if (model) modelName = model;
-    
-    if (!openaiApiKey) {
-      return { success: false, error: 'No OpenAI API key provided' };
+    const config = getLLMConfigFromEnv();
+    if (!config && !apiKey) {
+      return { success: false, error: 'No LLM provider configured (set OPENAI_API_KEY, LLM_BASE_URL or AZURE_OPENAI_*)' };
     }
 
-    // Test connection by making a simple API call
-    const testResponse = await fetch('https://api.openai.com/v1/models', {
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json'
-      }
-    });
+    const providerConfig: LLMProviderConfig = {
+      ...(config || { type: 'openai', model: 'gpt-4o-mini', jsonMode: true, timeoutMs: 30000 }),
+      ...(apiKey ? { apiKey } : {}),
+      ...(model ? { model } : {})
+    };
 
-    if (!testResponse.ok) {
-      return { success: false, error: `OpenAI API test failed: ${testResponse.statusText}` };
+    // Test connection before accepting the provider
+    const provider = createLLMProvider(providerConfig);
+    try {
+      await provider.checkConnection();
+    } catch (error) {
+      return { success: false, error: `LLM provider test failed (${provider.type}): ${error instanceof Error ? error.message : error}` };
     }
 
+    llmProvider = provider;
     isInitialized = true;
-    console.log(`✅ AI Service initialized with model: ${modelName}`);
+    log.info(`✅ AI Service initialized with ${provider.type} model: ${provider.model}`);
     return { success: true };
   } catch (error) {
-    console.error('❌ Failed to initialize AI Service:', error);
+    log.error('❌ Failed to initialize AI Service:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 };
 
+// Get the active LLM provider (throws if the AI service is not initialized)
+export const getLLMProvider = (): LLMProvider => {
+  if (!isInitialized || !llmProvider) {
+    throw new Error('AI service not initialized. Call initializeAI() first.');
+  }
+  return llmProvider;
+};
+
 // Check if AI service is available and ready
 export const isAIAvailable = (): boolean => {
   return isInitialized;
@@ -84,21 +165,15 @@ export const classifyEmail = async (email: EmailData): Promise<AIClassificationR
     throw new Error('AI service not initialized. Call initializeAI() first.');
   }
 
+  const provider = getLLMProvider();
+  const llm: LLMCallDetails = { provider: provider.type, model: provider.model, promptHash: '' };
+
   try {
     const prompt = buildClassificationPrompt(email);
-    
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: modelName,
-        messages: [
-          {
-            role: 'system',
-            content: `You are an expert email classifier for productivity systems. Your job is to analyze emails and determine if they require action from the recipient.
+    const messages: LLMMessage[] = [
+      {
+        role: 'system',
+        content: `You are an expert email classifier for productivity systems. Your job is to analyze emails and determine if they require action from the recipient.
 
 CLASSIFICATION RULES:
 1. ACTIONABLE emails require the recipient to DO something (reply, review, approve, attend, complete)
@@ -107,35 +182,35 @@ CLASSIFICATION RULES:
 4. Consider sender importance and relationship context
 
 RESPONSE FORMAT: Always return valid JSON with the exact structure requested.`
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.3,
-        max_tokens: 500
-      })
-    });
+      },
+      {
+        role: 'user',
+        content: prompt
+      }
+    ];
+    llm.promptHash = hashPrompt(messages);
 
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.statusText}`);
-    }
+    const content = await provider.complete(messages, {
+      json: true,
+      temperature: 0.3,
+      maxTokens: 500
+    });
+    llm.response = content;
 
-    const data = await response.json();
-    const result = JSON.parse(data.choices[0].message.content || '{}');
+    const result = JSON.parse(extractJsonText(content) || '{}');
     
     // Validate and normalize the AI response (matching original)
-    const classification = validateAndNormalizeResult(result, email);
+    const classification: AIClassificationResult = { ...validateAndNormalizeResult(result, email), llm };
     
-    // Store for learning (matching original)
-    recordClassification(email, classification);
+    // Store for learning (matching original) - dry runs don't teach the agent anything
+    if (!isDryRun()) {
+      await recordClassification(email, classification);
+    }
     
     return classification;
     
   } catch (error) {
-    console.error(`❌ AI classification failed for email ${email.id}:`, error);
+    log.error(`❌ AI classification failed for email ${email.id}:`, error);
     
     // Fallback classification (matching original)
     return {
@@ -143,11 +218,19 @@ RESPONSE FORMAT: Always return valid JSON with the exact structure requested.`
       suggestedLabel: 'TodoAgent_Skip',
       confidence: 0.1,
       keywords: [],
-      reasoning: 'AI classification failed, marked as non-actionable for safety'
+      reasoning: 'AI classification failed, marked as non-actionable for safety',
+      llm: { ...llm, error: error instanceof Error ? error.message : String(error) }
     };
   }
 };
 
+// Short, stable fingerprint of the exact prompt sent to the LLM
+const hashPrompt = (messages: LLMMessage[]): string => {
+  const hash = crypto.createHash('sha256');
+  messages.forEach(message => hash.update(`${message.role}\n${message.content}\n`));
+  return hash.digest('hex').substring(0, 16);
+};
+
 // Build classification prompt (matching original buildClassificationPrompt)
 const buildClassificationPrompt = (email: EmailData): string => {
   return `
@@ -158,7 +241,7 @@ TO: ${email.to}
 SUBJECT: ${email.subject}
 SNIPPET: ${email.snippet}
 BODY: ${email.body.substring(0, 2000)}
-
+${buildCorrectionExamples(email)}
 Return JSON with this exact structure:
 {
   "isActionable": boolean,
@@ -212,6 +295,30 @@ NON-ACTIONABLE INDICATORS:
 `;
 };
 
+// Few-shot examples from user corrections, preferring the same sender domain
+const buildCorrectionExamples = (email: EmailData, maxExamples: number = 5): string => {
+  const corrections = classificationHistory.filter(record =>
+    record.correctedLabel && record.correctedLabel !== record.classification && record.emailId !== email.id
+  );
+  if (corrections.length === 0) {
+    return '';
+  }
+  
+  const domain = extractDomain(email.from);
+  const examples = corrections
+    .sort((a, b) => {
+      const sameDomain = Number(extractDomain(b.from) === domain) - Number(extractDomain(a.from) === domain);
+      return sameDomain !== 0 ? sameDomain : (b.correctedAt?.getTime() || 0) - (a.correctedAt?.getTime() || 0);
+    })
+    .slice(0, maxExamples)
+    .map(record => `- FROM: ${record.from} | SUBJECT: ${record.subject} → was classified ${record.classification}, user corrected to ${record.correctedLabel}`);
+  
+  return `
+PAST CORRECTIONS FROM THIS USER (learn from these):
+${examples.join('\n')}
+`;
+};
+
 // Validate and normalize AI response (matching original validateAndNormalizeResult)
 const validateAndNormalizeResult = (result: any, email: EmailData): AIClassificationResult => {
   const normalized: AIClassificationResult = {
@@ -269,11 +376,14 @@ const generateTaskTitle = (email: EmailData): string => {
 };
 
 // Record classification for learning (matching original)
-const recordClassification = (email: EmailData, result: AIClassificationResult): void => {
+const recordClassification = async (email: EmailData, result: AIClassificationResult): Promise<void> => {
+  await loadClassificationHistory();
+  
   const learningData: LearningData = {
     emailId: email.id,
     from: email.from,
     subject: email.subject,
+    snippet: email.snippet,
     classification: result.suggestedLabel,
     confidence: result.confidence,
     keywords: result.keywords,
@@ -283,9 +393,51 @@ const recordClassification = (email: EmailData, result: AIClassificationResult):
   classificationHistory.push(learningData);
   
   // Keep only last 1000 classifications to prevent memory bloat (matching original)
-  if (classificationHistory.length > 1000) {
-    classificationHistory = classificationHistory.slice(-1000);
+  if (classificationHistory.length > MAX_HISTORY) {
+    classificationHistory = classificationHistory.slice(-MAX_HISTORY);
   }
+  
+  await saveClassificationHistory();
+};
+
+// Record a user correction - the email's correct label overrides the AI decision when learning
+export const recordCorrection = async (email: EmailData, correctLabel: string): Promise<void> => {
+  await loadClassificationHistory();
+  
+  const existing = classificationHistory.find(record => record.emailId === email.id);
+  if (existing) {
+    existing.correctedLabel = correctLabel;
+    existing.correctedAt = new Date();
+  } else {
+    classificationHistory.push({
+      emailId: email.id,
+      from: email.from,
+      subject: email.subject,
+      snippet: email.snippet,
+      classification: correctLabel,
+      confidence: 1,
+      keywords: [],
+      timestamp: new Date(),
+      correctedLabel: correctLabel,
+      correctedAt: new Date()
+    });
+    
+    if (classificationHistory.length > MAX_HISTORY) {
+      classificationHistory = classificationHistory.slice(-MAX_HISTORY);
+    }
+  }
+  
+  await saveClassificationHistory();
+};
+
+// Get classification history (used to train the local classifier)
+export const getClassificationHistory = (): LearningData[] => {
+  return [...classificationHistory];
+};
+
+// Version counter that changes whenever the history changes
+export const getHistoryVersion = (): number => {
+  return historyVersion;
 };
 
 // Batch processing for multiple emails (matching original)
@@ -326,12 +478,15 @@ export const getSenderPatterns = (): { [sender: string]: { label: string; count:
   const patterns: { [sender: string]: { labels: string[]; confidences: number[] } } = {};
   
   classificationHistory.forEach(record => {
-    const senderDomain = extractDomain(record.from);
-    if (!patterns[senderDomain]) {
-      patterns[senderDomain] = { labels: [], confidences: [] };
+    const sender = getSenderKey(record.from);
+    if (!patterns[sender]) {
+      patterns[sender] = { labels: [], confidences: [] };
     }
-    patterns[senderDomain].labels.push(record.classification);
-    patterns[senderDomain].confidences.push(record.confidence);
+    // User corrections override the AI label and count as a wrong (zero-confidence) AI decision
+    patterns[sender].labels.push(record.correctedLabel || record.classification);
+    patterns[sender].confidences.push(
+      record.correctedLabel && record.correctedLabel !== record.classification ? 0 : record.confidence
+    );
   });
   
   const result: { [sender: string]: { label: string; count: number; confidence: number } } = {};
@@ -362,32 +517,71 @@ const extractDomain = (email: string): string => {
   return match ? match[1].toLowerCase() : email.toLowerCase();
 };
 
-// Get suggested rules based on AI learning (matching original)
-export const getSuggestedRules = async (): Promise<Array<{
-  type: 'sender' | 'keyword';
-  pattern: string;
-  suggestedLabel: string;
-  confidence: number;
-  sampleCount: number;
-}>> => {
-  const suggestions: Array<{
-    type: 'sender' | 'keyword';
-    pattern: string;
-    suggestedLabel: string;
-    confidence: number;
-    sampleCount: number;
-  }> = [];
+// Domains shared by unrelated people - a pattern on one of these would cover every personal sender
+const SHARED_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'yahoo.com', 'ymail.com',
+  'icloud.com', 'me.com', 'mac.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'gmx.net', 'gmx.de',
+  'mail.com', 'yandex.com', 'zoho.com', 'fastmail.com', 'web.de'
+]);
+
+// Sender patterns group by domain, or by full address on shared domains
+const getSenderKey = (from: string): string => {
+  const domain = extractDomain(from);
+  if (!SHARED_EMAIL_DOMAINS.has(domain)) return domain;
+  return (from.match(/<([^>]+)>/)?.[1] || from).trim().toLowerCase();
+};
+
+// Get suggested rules based on AI learning - senders and keywords the AI keeps classifying the same way
+export const getSuggestedRules = async (): Promise<RuleSuggestion[]> => {
+  const suggestions: RuleSuggestion[] = [];
+  const labelOf = (record: LearningData) => record.correctedLabel || record.classification;
   
-  // Analyze sender patterns (matching original)
+  // Analyze sender patterns (matching original) - the label must also be consistent for the sender
   const senderPatterns = getSenderPatterns();
   Object.entries(senderPatterns).forEach(([sender, data]) => {
-    if (data.confidence > 0.8 && data.count >= 5) {
+    const records = classificationHistory.filter(record => getSenderKey(record.from) === sender);
+    if (data.confidence > 0.8 && data.count >= 5 && data.count / records.length >= 0.8) {
       suggestions.push({
+        id: buildSuggestionId('sender', sender, data.label),
         type: 'sender',
         pattern: sender,
         suggestedLabel: data.label,
         confidence: data.confidence,
-        sampleCount: data.count
+        sampleCount: data.count,
+        samples: toSuggestionSamples(records.filter(record => labelOf(record) === data.label))
+      });
+    }
+  });
+  
+  // Analyze keywords seen across several senders (single-sender keywords are covered by the sender suggestion)
+  const keywordRecords: { [keyword: string]: LearningData[] } = {};
+  classificationHistory.forEach(record => {
+    new Set(record.keywords.map(keyword => keyword.trim().toLowerCase())).forEach(keyword => {
+      if (keyword.length < 4) return;
+      (keywordRecords[keyword] = keywordRecords[keyword] || []).push(record);
+    });
+  });
+  
+  Object.entries(keywordRecords).forEach(([keyword, records]) => {
+    if (records.length < 5 || new Set(records.map(record => extractDomain(record.from))).size < 2) return;
+    
+    const labelCounts: { [label: string]: number } = {};
+    records.forEach(record => {
+      labelCounts[labelOf(record)] = (labelCounts[labelOf(record)] || 0) + 1;
+    });
+    const [label, count] = Object.entries(labelCounts).sort((a, b) => b[1] - a[1])[0];
+    const matching = records.filter(record => labelOf(record) === label);
+    const confidence = matching.reduce((total, record) => total + record.confidence, 0) / matching.length;
+    
+    if (count / records.length >= 0.9 && confidence > 0.8) {
+      suggestions.push({
+        id: buildSuggestionId('keyword', keyword, label),
+        type: 'keyword',
+        pattern: keyword,
+        suggestedLabel: label,
+        confidence,
+        sampleCount: count,
+        samples: toSuggestionSamples(matching)
       });
     }
   });
@@ -395,8 +589,96 @@ export const getSuggestedRules = async (): Promise<Array<{
   return suggestions.sort((a, b) => b.confidence - a.confidence);
 };
 
+// Stable ID so a suggestion can be accepted in a later run
+const buildSuggestionId = (type: RuleSuggestion['type'], pattern: string, label: string): string => {
+  return crypto.createHash('sha256').update(`${type}|${pattern}|${label}`).digest('hex').substring(0, 8);
+};
+
+// Most recent examples first
+const toSuggestionSamples = (records: LearningData[], maxSamples: number = 3): RuleSuggestion['samples'] => {
+  return records
+    .slice(-maxSamples)
+    .reverse()
+    .map(record => ({
+      emailId: record.emailId,
+      from: record.from,
+      subject: record.subject,
+      snippet: record.snippet,
+      timestamp: new Date(record.timestamp).toISOString()
+    }));
+};
+
+// Rule fields the LLM may set (anything else in its response is dropped)
+const DRAFT_RULE_FIELDS = ['name', 'description', 'priority', 'active', 'matchThreshold', 'stopProcessing', 'criteria', 'actions'];
+
+const RULE_AUTHORING_PROMPT = `You turn a plain-language description of an email filter into a JSON rule for a Gmail-to-Todoist agent.
+
+Return ONLY a JSON object with these fields:
+- "name": short rule name
+- "description": one sentence
+- "priority": 0-100, higher rules are evaluated first (use 50 unless the description implies otherwise)
+- "matchThreshold": share of the criteria fields that must match, above 0 and at most 1 (use 1 when every condition must hold)
+- "criteria": object with any of
+  - "from", "fromDomain", "to", "cc", "replyTo", "subject", "bodyKeywords", "attachmentName", "attachmentType", "labels", "category": arrays of patterns
+  - "excludeKeywords": array of patterns that veto the rule when found in the subject or body
+  - "hasAttachment", "sentOnlyToMe", "mailingList": true or false
+  - "all", "any", "not": arrays of nested criteria objects
+- "actions": object with
+  - "label": one of TodoAgent_Task, TodoAgent_Important, TodoAgent_Urgent, TodoAgent_Meeting, TodoAgent_Skip
+  - "skipAI": true to skip the email without creating a task (use with TodoAgent_Skip)
+  - "priority": Todoist task priority 1 (normal) to 4 (urgent)
+  - "project", "section": Todoist project and section names
+  - "labels": Todoist labels, "dueString": e.g. "tomorrow", "titleTemplate": e.g. "Pay: {subject}"
+
+Patterns: "text" matches a case-insensitive substring, "word:text" a whole word, "exact:text" the whole value, "/regex/i" a regular expression.
+Only add criteria and actions the description asks for.`;
+
+// Draft a rule from a plain-language description with the configured LLM (one repair attempt when it fails validation)
+export const draftRuleFromDescription = async (description: string): Promise<RuleDraft> => {
+  const provider = getLLMProvider();
+  const messages: LLMMessage[] = [
+    { role: 'system', content: RULE_AUTHORING_PROMPT },
+    { role: 'user', content: description }
+  ];
+  const llm: LLMCallDetails = { provider: provider.type, model: provider.model, promptHash: hashPrompt(messages) };
+
+  let draft = { rule: {} as Omit<FilterRule, 'id' | 'stats'>, errors: ['the LLM returned no rule'] };
+  for (let attempt = 0; attempt < 2 && draft.errors.length > 0; attempt++) {
+    const content = await provider.complete(messages, { json: true, temperature: 0.1, maxTokens: 800 });
+    llm.response = content;
+    draft = parseRuleDraft(content, description);
+
+    if (draft.errors.length > 0) {
+      log.warn(`⚠️ Drafted rule is invalid: ${draft.errors.join('; ')}`);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `That rule is invalid: ${draft.errors.join('; ')}. Return the corrected JSON rule.` }
+      );
+    }
+  }
+
+  return { ...draft, llm };
+};
+
+const parseRuleDraft = (content: string, description: string): Omit<RuleDraft, 'llm'> => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(extractJsonText(content) || '{}');
+  } catch {
+    return { rule: {} as Omit<FilterRule, 'id' | 'stats'>, errors: ['response is not valid JSON'] };
+  }
+
+  const rule: any = { description, priority: 50, active: true };
+  DRAFT_RULE_FIELDS.forEach(field => {
+    if (parsed?.[field] !== undefined && parsed[field] !== null) rule[field] = parsed[field];
+  });
+  return { rule, errors: validateRule({ ...rule, id: 'draft' }) };
+};
+
 // Clear learning history (matching original)
-export const clearHistory = (): void => {
+export const clearHistory = async (): Promise<void> => {
   classificationHistory = [];
-  console.log('🧹 AI classification history cleared');
+  isHistoryLoaded = true;
+  await saveClassificationHistory();
+  log.info('🧹 AI classification history cleared');
 };
\ No newline at end of file
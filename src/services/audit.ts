@@ -0,0 +1,125 @@
+// Decision audit trail - one record per processing run explaining how the agent decided what to do with an email
+import { AsyncLocalStorage } from 'async_hooks';
+import { getDataPath, readJsonLines, appendJsonLine, writeJsonLines } from '../core/storage';
+import { createLogger, getLogContext } from '../core/logger';
+import { LedgerDecision } from './ledger';
+import { RuleEvaluation } from './rule-engine';
+import { LLMCallDetails } from './ai-service';
+import { isDryRun } from './dry-run';
+
+const log = createLogger('audit');
+
+export type AuditOutcome = 'task_created' | 'skipped' | 'review' | 'failed' | 'duplicate';
+
+export interface AuditClassification {
+  classifier: 'local' | 'ai' | 'basic';
+  label: string;
+  isActionable: boolean;
+  confidence?: number;
+  reasoning: string;
+  keywords: string[];
+  llm?: LLMCallDetails;
+}
+
+export interface AuditRecord {
+  emailId: string;
+  source: 'webhook' | 'batch' | 'manual' | 'review';
+  correlationId?: string;
+  timestamp: string;
+  from?: string;
+  subject?: string;
+  steps: string[]; // The decision path, in order
+  rules?: RuleEvaluation[];
+  classification?: AuditClassification;
+  decision?: LedgerDecision;
+  labelsApplied: string[];
+  taskId?: string;
+  updatedExistingTask?: boolean;
+  outcome?: AuditOutcome;
+  error?: string;
+  durationMs?: number;
+}
+
+// Global audit state (functional approach) - the record being built for the current processing run
+const recordStorage = new AsyncLocalStorage<AuditRecord>();
+
+// Audit file location (JSON lines, one record per processing run)
+export const getAuditFilePath = (): string => getDataPath('audit.jsonl');
+
+// Days of audit records kept (AUDIT_RETENTION_DAYS, 0 keeps everything)
+export const getAuditRetentionDays = (): number => {
+  return parseInt(process.env.AUDIT_RETENTION_DAYS || '90');
+};
+
+// Start a new audit record for an email
+export const createAuditRecord = (emailId: string, source: AuditRecord['source']): AuditRecord => {
+  return {
+    emailId,
+    source,
+    correlationId: getLogContext()?.correlationId,
+    timestamp: new Date().toISOString(),
+    steps: [],
+    labelsApplied: []
+  };
+};
+
+// Run a function with an audit record - services called inside it add to the record
+export const withAuditRecord = <T>(record: AuditRecord, fn: () => Promise<T>): Promise<T> => {
+  return recordStorage.run(record, fn);
+};
+
+// Add a step to the current decision path (no-op outside a processing run)
+export const auditStep = (step: string): void => {
+  recordStorage.getStore()?.steps.push(step);
+};
+
+// Merge fields into the current audit record (no-op outside a processing run)
+export const updateAuditRecord = (fields: Partial<Omit<AuditRecord, 'steps' | 'labelsApplied'>>): void => {
+  const record = recordStorage.getStore();
+  if (record) {
+    Object.assign(record, fields);
+  }
+};
+
+// Note a Gmail label applied during the current processing run
+export const auditLabelApplied = (label: string): void => {
+  const record = recordStorage.getStore();
+  if (record && !record.labelsApplied.includes(label)) {
+    record.labelsApplied.push(label);
+  }
+};
+
+// Persist a finished audit record (never fails the processing result) - dry runs are reported, not audited
+export const saveAuditRecord = async (record: AuditRecord): Promise<void> => {
+  if (isDryRun()) return;
+
+  try {
+    await appendJsonLine(getAuditFilePath(), record);
+  } catch (error) {
+    log.error(`❌ Failed to write audit record for ${record.emailId}:`, error);
+  }
+};
+
+// All audit records for an email, oldest first
+export const getAuditRecords = async (emailId: string): Promise<AuditRecord[]> => {
+  const records = await readJsonLines<AuditRecord>(getAuditFilePath());
+  return records
+    .filter(record => record?.emailId === emailId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// Drop records older than the retention period
+export const pruneAuditTrail = async (): Promise<void> => {
+  const retentionDays = getAuditRetentionDays();
+  if (retentionDays <= 0 || isDryRun()) return;
+
+  const filePath = getAuditFilePath();
+  const records = await readJsonLines<AuditRecord>(filePath);
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const kept = records.filter(record => record?.timestamp >= cutoff);
+
+  if (kept.length < records.length) {
+    await writeJsonLines(filePath, kept);
+    log.info(`🗜️ Pruned ${records.length - kept.length} audit records older than ${retentionDays} days`);
+  }
+};
@@ -1,6 +1,10 @@
 // Batch Processing - runs every 15 minutes to check for new emails
+import { createHistogram } from '../core/metrics';
+import { createLogger, withLogContext } from '../core/logger';
 import { processEmails, getProcessingStats } from './email-processor';
 
+const log = createLogger('batch-processor');
+
 export interface BatchProcessingConfig {
   intervalMinutes: number;
   maxEmailsPerBatch: number;
@@ -44,15 +48,15 @@ export const startBatchProcessing = async (config?: Partial<BatchProcessingConfi
   }
 
   if (!batchConfig.enabled) {
-    console.log(' Batch processing is disabled');
+    log.info(' Batch processing is disabled');
     return;
   }
 
-  console.log(`Starting batch processing (every ${batchConfig.intervalMinutes} minutes)`);
+  log.info(`Starting batch processing (every ${batchConfig.intervalMinutes} minutes)`);
 
   // Run on startup if configured
   if (batchConfig.runOnStartup) {
-    console.log('Running initial batch processing...');
+    log.info('Running initial batch processing...');
     await runBatchProcessing();
   }
 
@@ -65,7 +69,7 @@ export const startBatchProcessing = async (config?: Partial<BatchProcessingConfi
   // Calculate next run time
   batchStats.nextRunTime = new Date(Date.now() + intervalMs);
   
-  console.log(`✅ Batch processing started. Next run: ${batchStats.nextRunTime.toLocaleTimeString()}`);
+  log.info(`✅ Batch processing started. Next run: ${batchStats.nextRunTime.toLocaleTimeString()}`);
 };
 
 // Stop batch processing
@@ -74,14 +78,20 @@ export const stopBatchProcessing = (): void => {
     clearInterval(batchInterval);
     batchInterval = null;
     batchStats.nextRunTime = undefined;
-    console.log('🛑 Batch processing stopped');
+    log.info('🛑 Batch processing stopped');
   }
 };
 
+const batchDuration = createHistogram('todo_agent_batch_duration_seconds', 'Batch processing cycle duration in seconds', ['outcome'], [1, 5, 15, 30, 60, 120, 300, 600]);
+
 // Run a single batch processing cycle
 export const runBatchProcessing = async (): Promise<BatchProcessingStats> => {
+  return withLogContext({ source: 'batch' }, runBatchCycle);
+};
+
+const runBatchCycle = async (): Promise<BatchProcessingStats> => {
   if (batchStats.isRunning) {
-    console.log(' Batch processing already running, skipping this cycle');
+    log.info(' Batch processing already running, skipping this cycle');
     return batchStats;
   }
 
@@ -90,7 +100,7 @@ export const runBatchProcessing = async (): Promise<BatchProcessingStats> => {
   batchStats.totalRuns++;
 
   try {
-    console.log(` Starting batch processing cycle #${batchStats.totalRuns} (max ${batchConfig.maxEmailsPerBatch} emails)`);
+    log.info(` Starting batch processing cycle #${batchStats.totalRuns} (max ${batchConfig.maxEmailsPerBatch} emails)`);
 
     // Get processing stats before
     const statsBefore = getProcessingStats();
@@ -99,26 +109,27 @@ export const runBatchProcessing = async (): Promise<BatchProcessingStats> => {
     // 1. Unread emails without any TodoAgent tags (fresh emails)
     // 2. Unread emails with ONLY TodoAgent_Failed (retry failed)
     // 3. Exclude emails with TodoAgent_Processed or TodoAgent_Skip (already done)
+    // 4. Exclude emails with TodoAgent_Review (waiting for a human decision)
     
     const isStartupRun = batchStats.totalRuns === 1 && batchConfig.runOnStartup;
     
     // Build query to exclude already processed emails but include failed ones for retry
     const query = isStartupRun 
-      ? `is:unread newer_than:1d -label:"TodoAgent_Processed" -label:"TodoAgent_Skip"`  
-      : `is:unread -label:"TodoAgent_Processed" -label:"TodoAgent_Skip"`;
+      ? `is:unread newer_than:1d -label:"TodoAgent_Processed" -label:"TodoAgent_Skip" -label:"TodoAgent_Review"`  
+      : `is:unread -label:"TodoAgent_Processed" -label:"TodoAgent_Skip" -label:"TodoAgent_Review"`;
     
     if (isStartupRun) {
-      console.log(' Startup run: Processing unread emails from last 24 hours (catching up + retry failed)');
+      log.info(' Startup run: Processing unread emails from last 24 hours (catching up + retry failed)');
     } else {
-      console.log(' Regular batch: Processing unread emails (fresh + failed retry, excluding processed/skip)');
+      log.info(' Regular batch: Processing unread emails (fresh + failed retry, excluding processed/skip)');
     }
     
-    console.log(` Gmail query: "${query}"`);
+    log.info(` Gmail query: "${query}"`);
     
     const results = await processEmails({
       query,
       maxResults: batchConfig.maxEmailsPerBatch
-    });
+    }, 'batch');
 
     // Get processing stats after
     const statsAfter = getProcessingStats();
@@ -132,6 +143,7 @@ export const runBatchProcessing = async (): Promise<BatchProcessingStats> => {
     batchStats.totalTasksCreated += tasksCreated;
     batchStats.lastRunTime = new Date();
     batchStats.averageProcessingTime = (batchStats.averageProcessingTime * (batchStats.totalRuns - 1) + processingTime) / batchStats.totalRuns;
+    batchDuration.observe({ outcome: 'success' }, processingTime / 1000);
 
     // Calculate next run time
     if (batchInterval) {
@@ -141,18 +153,19 @@ export const runBatchProcessing = async (): Promise<BatchProcessingStats> => {
 
     // Log results
     if (emailsProcessed > 0) {
-      console.log(`✅ Batch processing complete: ${emailsProcessed} emails processed, ${tasksCreated} tasks created in ${Math.round(processingTime/1000)}s`);
-      console.log(`📊 Total: ${batchStats.totalRuns} runs, ${batchStats.totalEmailsProcessed} emails, ${batchStats.totalTasksCreated} tasks`);
+      log.info(`✅ Batch processing complete: ${emailsProcessed} emails processed, ${tasksCreated} tasks created in ${Math.round(processingTime/1000)}s`);
+      log.info(`📊 Total: ${batchStats.totalRuns} runs, ${batchStats.totalEmailsProcessed} emails, ${batchStats.totalTasksCreated} tasks`);
     } else {
-      console.log(`📦 Batch processing complete: No new emails to process`);
+      log.info(`📦 Batch processing complete: No new emails to process`);
     }
 
     if (batchStats.nextRunTime) {
-      console.log(`⏰ Next batch run: ${batchStats.nextRunTime.toLocaleTimeString()}`);
+      log.info(`⏰ Next batch run: ${batchStats.nextRunTime.toLocaleTimeString()}`);
     }
 
   } catch (error) {
-    console.error('❌ Batch processing failed:', error);
+    batchDuration.observe({ outcome: 'error' }, (Date.now() - startTime) / 1000);
+    log.error('❌ Batch processing failed:', error);
   } finally {
     batchStats.isRunning = false;
   }
@@ -173,10 +186,10 @@ export const updateBatchConfig = (newConfig: Partial<BatchProcessingConfig>): Ba
   // If enabling/disabling, restart batch processing
   if (wasEnabled !== batchConfig.enabled) {
     if (batchConfig.enabled) {
-      console.log('📦 Batch processing enabled');
+      log.info('📦 Batch processing enabled');
       startBatchProcessing();
     } else {
-      console.log('📦 Batch processing disabled');
+      log.info('📦 Batch processing disabled');
       stopBatchProcessing();
     }
   } else if (batchConfig.enabled && batchInterval) {
@@ -200,7 +213,7 @@ export const runManualBatch = async (maxEmails?: number): Promise<BatchProcessin
     batchConfig.maxEmailsPerBatch = maxEmails;
   }
 
-  console.log('🔧 Running manual batch processing...');
+  log.info('🔧 Running manual batch processing...');
   const result = await runBatchProcessing();
 
   // Restore original config
@@ -220,5 +233,5 @@ export const resetBatchStats = (): void => {
     lastRunTime: undefined,
     nextRunTime: batchStats.nextRunTime // Keep next run time
   };
-  console.log('📊 Batch processing statistics reset');
+  log.info('📊 Batch processing statistics reset');
 };
\ No newline at end of file
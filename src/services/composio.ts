@@ -1,11 +1,18 @@
 import { Composio } from '@composio/core';
 import { ConnectedAccount } from '../core/types';
+import { createCounter, createHistogram } from '../core/metrics';
+import { createLogger } from '../core/logger';
+
+const log = createLogger('composio');
 
 
 let composioInstance: Composio | null = null;
 let isInitialized = false;
 let connectedAccountsCache = new Map<string, ConnectedAccount>();
 
+const actionDuration = createHistogram('todo_agent_composio_action_duration_seconds', 'Composio action latency in seconds', ['action', 'outcome']);
+const actionErrors = createCounter('todo_agent_composio_action_errors_total', 'Composio actions that failed', ['action']);
+
 
 const getConfig = () => ({
   apiKey: process.env.COMPOSIO_API_KEY || '',
@@ -30,10 +37,10 @@ export const initializeComposio = async (apiKey?: string): Promise<Composio> =>
 
     composioInstance = composio;
     isInitialized = true;
-    console.log('✅ Composio client initialized successfully');
+    log.info('✅ Composio client initialized successfully');
     return composio;
   } catch (error) {
-    console.error('❌ Failed to initialize Composio client:', error);
+    log.error('❌ Failed to initialize Composio client:', error);
     // Match original error format exactly
     throw new Error(`Composio initialization failed: ${error}`);
   }
@@ -57,16 +64,23 @@ export const executeAction = async (
     throw new Error('Composio client not initialized');
   }
   
+  const stopTimer = actionDuration.startTimer({ action });
   try {
     const config = getConfig();
     const result = await composioInstance.tools.execute(action, {
       userId: config.userId,
       ...params
     });
+    // Composio reports most action failures in the result rather than throwing
+    const failed = (result as any)?.successful === false;
+    stopTimer({ outcome: failed ? 'error' : 'success' });
+    if (failed) actionErrors.inc({ action });
     return result;
   } catch (error) {
+    stopTimer({ outcome: 'error' });
+    actionErrors.inc({ action });
     // Match original error format
-    console.error(`Action failed: ${action}`, error);
+    log.error(`Action failed: ${action}`, error);
     throw error;
   }
 };
@@ -95,10 +109,10 @@ export const createTrigger = async (
       requestBody
     );
 
-    console.log(`✅ Trigger created: ${triggerSlug}`, trigger.triggerId);
+    log.info(`✅ Trigger created: ${triggerSlug}`, trigger.triggerId);
     return trigger;
   } catch (error) {
-    console.error(`❌ Failed to create trigger: ${triggerSlug}`, error);
+    log.error(`❌ Failed to create trigger: ${triggerSlug}`, error);
     throw error;
   }
 };
@@ -130,7 +144,7 @@ export const listConnectedAccounts = async (): Promise<ConnectedAccount[]> => {
 
     return mappedAccounts;
   } catch (error) {
-    console.error('❌ Failed to list connected accounts:', error);
+    log.error('❌ Failed to list connected accounts:', error);
     throw error;
   }
 };
@@ -150,12 +164,12 @@ export const getActiveGmailAccount = async (): Promise<ConnectedAccount | null>
   );
   
   if (activeGmailAccounts.length === 0) {
-    console.warn('⚠️ No active Gmail accounts found');
+    log.warn('⚠️ No active Gmail accounts found');
     return null;
   }
   
   if (activeGmailAccounts.length > 1) {
-    console.warn(`⚠️ Found ${activeGmailAccounts.length} active Gmail accounts. Using the first one.`);
+    log.warn(`⚠️ Found ${activeGmailAccounts.length} active Gmail accounts. Using the first one.`);
   }
   
   return activeGmailAccounts[0];
@@ -176,7 +190,7 @@ export const getActiveTodoistAccount = async (): Promise<ConnectedAccount | null
   );
   
   if (activeTodoistAccounts.length === 0) {
-    console.warn('⚠️ No active Todoist accounts found');
+    log.warn('⚠️ No active Todoist accounts found');
     return null;
   }
   
@@ -0,0 +1,401 @@
+// Dashboard - self-contained browser UI served by the webhook server (no external assets; data comes from /api)
+import express from 'express';
+import { DEFAULT_MATCH_THRESHOLD } from './rule-criteria';
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Gmail-Todo Agent</title>
+<style>
+  body { font-family: system-ui, -apple-system, Segoe UI, Roboto, sans-serif; margin: 0; background: #f5f6f8; color: #222; }
+  header { background: #1f2937; color: #fff; padding: 12px 24px; display: flex; align-items: center; justify-content: space-between; }
+  header h1 { font-size: 18px; margin: 0; }
+  main { padding: 16px 24px; display: grid; gap: 16px; grid-template-columns: repeat(auto-fit, minmax(420px, 1fr)); }
+  section { background: #fff; border-radius: 8px; padding: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.08); }
+  section.wide { grid-column: 1 / -1; }
+  h2 { font-size: 15px; margin: 0 0 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+  th { color: #666; font-weight: 600; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(110px, 1fr)); gap: 8px; }
+  .stat { background: #f9fafb; border-radius: 6px; padding: 8px; }
+  .stat b { display: block; font-size: 20px; }
+  .stat span { font-size: 12px; color: #666; }
+  .ok { color: #15803d; } .bad { color: #b91c1c; } .muted { color: #888; }
+  button { cursor: pointer; border: 1px solid #d1d5db; background: #fff; border-radius: 4px; padding: 4px 10px; font-size: 13px; }
+  button.primary { background: #2563eb; border-color: #2563eb; color: #fff; }
+  button.danger { color: #b91c1c; }
+  form { display: grid; grid-template-columns: 160px 1fr; gap: 6px 12px; font-size: 13px; align-items: center; }
+  form input[type=text], form input[type=number], form select, form textarea { width: 100%; box-sizing: border-box; padding: 4px 6px; font: inherit; }
+  form .full { grid-column: 1 / -1; }
+  form h3 { grid-column: 1 / -1; font-size: 13px; margin: 8px 0 0; color: #444; }
+  #error { color: #b91c1c; font-size: 13px; }
+  #login { max-width: 360px; margin: 80px auto; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Gmail-Todo Agent</h1>
+  <div><span id="updated" class="muted"></span> <button id="logout">Sign out</button></div>
+</header>
+
+<section id="login" hidden>
+  <h2>Admin token</h2>
+  <p class="muted">Enter the ADMIN_API_TOKEN configured for this agent.</p>
+  <input id="token" type="password" style="width:100%;padding:6px" autocomplete="current-password">
+  <p><button class="primary" id="signin">Sign in</button> <span id="loginError" class="bad"></span></p>
+</section>
+
+<main id="app" hidden>
+  <section>
+    <h2>Processing</h2>
+    <div class="stats" id="processingStats"></div>
+  </section>
+
+  <section>
+    <h2>Schedule</h2>
+    <table id="schedule"></table>
+  </section>
+
+  <section>
+    <h2>Connections <button id="refreshConnections">Check</button></h2>
+    <table id="connections"><tr><td class="muted">Not checked yet</td></tr></table>
+  </section>
+
+  <section class="wide">
+    <h2>Recent results</h2>
+    <table>
+      <thead><tr><th>Time</th><th>Email</th><th>Outcome</th><th>Decision</th><th>Reasoning</th></tr></thead>
+      <tbody id="results"></tbody>
+    </table>
+  </section>
+
+  <section class="wide">
+    <h2>Rules <button id="newRule">New rule</button></h2>
+    <table>
+      <thead><tr><th>Priority</th><th>Name</th><th>Label</th><th>Matches</th><th>Accuracy</th><th>Active</th><th></th></tr></thead>
+      <tbody id="rules"></tbody>
+    </table>
+  </section>
+
+  <section class="wide" id="editor" hidden>
+    <h2 id="editorTitle">Edit rule</h2>
+    <form id="ruleForm">
+      <label>Name</label><input type="text" name="name" required>
+      <label>Description</label><input type="text" name="description">
+      <label>Priority (0-100)</label><input type="number" name="priority" min="0" max="100">
+      <label>Active</label><input type="checkbox" name="active">
+      <label>After a match</label>
+      <select name="stopProcessing"><option value="">Default for the evaluation mode</option><option value="true">Stop processing</option><option value="false">Continue with lower-priority rules</option></select>
+
+      <h3>Criteria (comma-separated)</h3>
+      <label>From</label><input type="text" name="criteria.from">
+      <label>From domain</label><input type="text" name="criteria.fromDomain">
+      <label>To</label><input type="text" name="criteria.to">
+      <label>Subject contains</label><input type="text" name="criteria.subject">
+      <label>Body keywords</label><input type="text" name="criteria.bodyKeywords">
+      <label>Exclude keywords</label><input type="text" name="criteria.excludeKeywords">
+      <label>Gmail labels</label><input type="text" name="criteria.labels">
+      <label>Category</label><input type="text" name="criteria.category" placeholder="primary, social, promotions, updates, forums">
+      <label>Has attachment</label>
+      <select name="criteria.hasAttachment"><option value="">Any</option><option value="true">Yes</option><option value="false">No</option></select>
+      <label>Sent only to me</label>
+      <select name="criteria.sentOnlyToMe"><option value="">Any</option><option value="true">Yes</option><option value="false">No</option></select>
+      <label>Mailing list</label>
+      <select name="criteria.mailingList"><option value="">Any</option><option value="true">Yes</option><option value="false">No</option></select>
+      <label>Match threshold (0-1)</label><input type="number" name="matchThreshold" min="0.05" max="1" step="0.05" placeholder="${DEFAULT_MATCH_THRESHOLD} (default)">
+      <label>Advanced criteria (JSON)</label>
+      <textarea name="advancedCriteria" rows="4" placeholder='{"subject": {"any": ["word:invoice", "/order #[0-9]+/"], "weight": 2}, "not": [{"from": ["noreply@"]}]}'></textarea>
+
+      <h3>Actions</h3>
+      <label>Gmail label</label>
+      <input type="text" name="actions.label" list="labelOptions" required>
+      <datalist id="labelOptions">
+        <option>TodoAgent_Task</option><option>TodoAgent_Important</option><option>TodoAgent_Urgent</option>
+        <option>TodoAgent_Meeting</option><option>TodoAgent_Skip</option>
+      </datalist>
+      <label>Task priority</label>
+      <select name="actions.priority"><option value="">Default</option><option value="1">1 (normal)</option><option value="2">2</option><option value="3">3</option><option value="4">4 (urgent)</option></select>
+      <label>Skip AI</label><input type="checkbox" name="actions.skipAI">
+      <label>Todoist project</label><input type="text" name="actions.project">
+      <label>Section</label><input type="text" name="actions.section">
+      <label>Extra labels</label><input type="text" name="actions.labels">
+      <label>Due</label><input type="text" name="actions.dueString" placeholder="e.g. tomorrow">
+      <label>Title template</label><input type="text" name="actions.titleTemplate" placeholder="e.g. Review: {subject}">
+
+      <div class="full"><button class="primary" type="submit">Save</button> <button type="button" id="cancelEdit">Cancel</button> <span id="error"></span></div>
+    </form>
+  </section>
+</main>
+<script src="/dashboard/app.js"></script>
+</body>
+</html>
+`;
+
+const DASHBOARD_JS = `(function () {
+  var TOKEN_KEY = 'todoAgentAdminToken';
+  var LIST_FIELDS = ['from', 'fromDomain', 'to', 'subject', 'bodyKeywords', 'excludeKeywords', 'labels', 'category'];
+  var FLAG_FIELDS = ['hasAttachment', 'sentOnlyToMe', 'mailingList'];
+  var DEFAULT_MATCH_THRESHOLD = ${DEFAULT_MATCH_THRESHOLD};
+  var rulesById = {};
+  var editingId = null;
+
+  function $(id) { return document.getElementById(id); }
+
+  function esc(value) {
+    return String(value === undefined || value === null ? '' : value)
+      .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  function time(value) { return value ? new Date(value).toLocaleString() : 'Never'; }
+
+  function api(method, path, body) {
+    return fetch('/api' + path, {
+      method: method,
+      headers: { 'Authorization': 'Bearer ' + sessionStorage.getItem(TOKEN_KEY), 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined
+    }).then(function (res) {
+      if (res.status === 401 || res.status === 503) {
+        showLogin(res.status === 503 ? 'Admin API disabled - set ADMIN_API_TOKEN' : 'Invalid token');
+        throw new Error('Unauthorized');
+      }
+      return res.json().then(function (data) {
+        if (!res.ok) throw new Error(data.errors ? data.errors.join('; ') : data.error || res.statusText);
+        return data;
+      });
+    });
+  }
+
+  function showLogin(message) {
+    $('app').hidden = true;
+    $('login').hidden = false;
+    $('loginError').textContent = message || '';
+  }
+
+  function showApp() {
+    $('login').hidden = true;
+    $('app').hidden = false;
+    refresh();
+    loadRules();
+  }
+
+  function renderStats(stats) {
+    var items = [
+      ['Processed', stats.totalProcessed], ['Tasks created', stats.tasksCreated], ['Tasks updated', stats.tasksUpdated],
+      ['Rule matches', stats.ruleMatched], ['AI classified', stats.aiProcessed], ['For review', stats.queuedForReview],
+      ['Skipped', stats.skipped], ['Failed', stats.failed]
+    ];
+    $('processingStats').innerHTML = items.map(function (item) {
+      return '<div class="stat"><b>' + esc(item[1]) + '</b><span>' + esc(item[0]) + '</span></div>';
+    }).join('');
+  }
+
+  function renderSchedule(status) {
+    var batch = status.batch, sync = status.taskSync, jobs = status.jobs;
+    $('schedule').innerHTML = [
+      ['Batch processing', batch.config.enabled ? 'every ' + batch.config.intervalMinutes + ' min' : 'disabled'],
+      ['Batch last run', time(batch.lastRunTime) + (batch.isRunning ? ' (running)' : '')],
+      ['Batch next run', batch.nextRunTime ? time(batch.nextRunTime) : 'Not scheduled'],
+      ['Task sync last run', time(sync.lastRunTime) + (sync.lastError ? ' - ' + sync.lastError : '')],
+      ['Task sync next run', sync.nextRunTime ? time(sync.nextRunTime) : 'Not scheduled'],
+      ['Job queue', jobs.pending + ' pending, ' + jobs.running + ' running, ' + jobs.dead + ' dead']
+    ].map(function (row) { return '<tr><th>' + esc(row[0]) + '</th><td>' + esc(row[1]) + '</td></tr>'; }).join('');
+  }
+
+  function renderResults(results) {
+    if (results.length === 0) {
+      $('results').innerHTML = '<tr><td colspan="5" class="muted">No emails processed since the agent started</td></tr>';
+      return;
+    }
+    $('results').innerHTML = results.map(function (r) {
+      var outcome = !r.success ? '<span class="bad">Failed: ' + esc(r.error) + '</span>'
+        : r.taskId ? '<span class="ok">Task ' + esc(r.taskId) + '</span>'
+        : esc(r.error || 'Processed');
+      var d = r.decision || {};
+      var decision = d.type ? esc(d.type) + (d.label ? ' &rarr; ' + esc(d.label) : '') + (d.confidence !== undefined ? ' (' + esc(d.confidence) + ')' : '') : '';
+      return '<tr><td>' + esc(time(r.timestamp)) + '</td><td>' + esc(r.subject || r.emailId) + '<br><span class="muted">' + esc(r.from || '') + '</span></td>'
+        + '<td>' + outcome + '</td><td>' + decision + '</td><td>' + esc(d.reasoning || '') + '</td></tr>';
+    }).join('');
+  }
+
+  function refresh() {
+    Promise.all([api('GET', '/stats'), api('GET', '/status'), api('GET', '/results/recent')]).then(function (data) {
+      renderStats(data[0].processing);
+      renderSchedule(data[1]);
+      renderResults(data[2].results);
+      $('updated').textContent = 'Updated ' + new Date().toLocaleTimeString();
+    }).catch(function (error) { $('updated').textContent = 'Refresh failed: ' + error.message; });
+  }
+
+  function checkConnections() {
+    $('connections').innerHTML = '<tr><td class="muted">Checking...</td></tr>';
+    api('GET', '/connections').then(function (data) {
+      var rows = [['Gmail', data.gmail], ['Todoist', data.todoist]].map(function (row) {
+        return '<tr><th>' + row[0] + '</th><td class="' + (row[1] ? 'ok">Connected' : 'bad">Not connected') + '</td></tr>';
+      });
+      data.accounts.forEach(function (account) {
+        rows.push('<tr><td class="muted">' + esc(account.toolkit) + '</td><td class="muted">' + esc(account.status) + ' (' + esc(account.id) + ')</td></tr>');
+      });
+      $('connections').innerHTML = rows.join('');
+    }).catch(function (error) {
+      $('connections').innerHTML = '<tr><td class="bad">' + esc(error.message) + '</td></tr>';
+    });
+  }
+
+  function loadRules() {
+    api('GET', '/rules').then(function (data) {
+      rulesById = {};
+      var rules = data.rules.slice().sort(function (a, b) { return b.priority - a.priority; });
+      $('rules').innerHTML = rules.map(function (rule) {
+        rulesById[rule.id] = rule;
+        var accuracy = rule.stats.accuracy !== undefined ? Math.round(rule.stats.accuracy * 100) + '%' : '';
+        return '<tr><td>' + esc(rule.priority) + '</td><td>' + esc(rule.name) + '<br><span class="muted">' + esc(rule.description) + '</span></td>'
+          + '<td>' + esc(rule.actions.label) + '</td><td>' + esc(rule.stats.matched) + '</td><td>' + accuracy + '</td>'
+          + '<td>' + (rule.active ? '<span class="ok">Yes</span>' : '<span class="muted">No</span>') + '</td>'
+          + '<td><button data-edit="' + esc(rule.id) + '">Edit</button> <button class="danger" data-delete="' + esc(rule.id) + '">Delete</button></td></tr>';
+      }).join('');
+    });
+  }
+
+  function field(name) { return $('ruleForm').elements.namedItem(name); }
+
+  function openEditor(rule) {
+    editingId = rule ? rule.id : null;
+    $('editorTitle').textContent = rule ? 'Edit rule: ' + rule.name : 'New rule';
+    $('error').textContent = '';
+    var criteria = rule ? rule.criteria : {};
+    var actions = rule ? rule.actions : { label: 'TodoAgent_Task' };
+
+    field('name').value = rule ? rule.name : '';
+    field('description').value = rule ? rule.description : '';
+    field('priority').value = rule ? rule.priority : 50;
+    field('active').checked = rule ? rule.active : true;
+    field('stopProcessing').value = rule && rule.stopProcessing !== undefined ? String(rule.stopProcessing) : '';
+    // Anything the comma-separated inputs cannot show goes to the advanced JSON
+    var advanced = {};
+    Object.keys(criteria).forEach(function (name) {
+      if (FLAG_FIELDS.indexOf(name) === -1 && !(LIST_FIELDS.indexOf(name) !== -1 && isSimpleList(criteria[name]))) advanced[name] = criteria[name];
+    });
+    LIST_FIELDS.forEach(function (name) { field('criteria.' + name).value = isSimpleList(criteria[name]) ? criteria[name].join(', ') : ''; });
+    FLAG_FIELDS.forEach(function (name) { field('criteria.' + name).value = criteria[name] === undefined ? '' : String(criteria[name]); });
+    field('matchThreshold').value = rule && rule.matchThreshold !== undefined ? rule.matchThreshold : '';
+    field('advancedCriteria').value = Object.keys(advanced).length > 0 ? JSON.stringify(advanced, null, 2) : '';
+    field('actions.label').value = actions.label;
+    field('actions.priority').value = actions.priority ? String(actions.priority) : '';
+    field('actions.skipAI').checked = !!actions.skipAI;
+    ['project', 'section', 'dueString', 'titleTemplate'].forEach(function (name) { field('actions.' + name).value = actions[name] || ''; });
+    field('actions.labels').value = (actions.labels || []).join(', ');
+
+    $('editor').hidden = false;
+    $('editor').scrollIntoView({ behavior: 'smooth' });
+  }
+
+  function isSimpleList(value) {
+    return Array.isArray(value) && value.every(function (item) { return item.indexOf(',') === -1; });
+  }
+
+  function splitList(value) {
+    return value.split(',').map(function (item) { return item.trim(); }).filter(function (item) { return item.length > 0; });
+  }
+
+  function readForm() {
+    var criteria = {};
+    LIST_FIELDS.forEach(function (name) {
+      var values = splitList(field('criteria.' + name).value);
+      if (values.length > 0) criteria[name] = values;
+    });
+    FLAG_FIELDS.forEach(function (name) {
+      var value = field('criteria.' + name).value;
+      if (value) criteria[name] = value === 'true';
+    });
+    var advanced = field('advancedCriteria').value.trim();
+    if (advanced) {
+      var parsed;
+      try { parsed = JSON.parse(advanced); } catch (error) { throw new Error('Advanced criteria must be valid JSON'); }
+      Object.keys(parsed).forEach(function (name) { criteria[name] = parsed[name]; });
+    }
+
+    var actions = { label: field('actions.label').value.trim() };
+    if (field('actions.priority').value) actions.priority = parseInt(field('actions.priority').value, 10);
+    if (field('actions.skipAI').checked) actions.skipAI = true;
+    ['project', 'section', 'dueString', 'titleTemplate'].forEach(function (name) {
+      var value = field('actions.' + name).value.trim();
+      if (value) actions[name] = value;
+    });
+    var labels = splitList(field('actions.labels').value);
+    if (labels.length > 0) actions.labels = labels;
+    // Empty or default clears the threshold, so the rule follows the default if it ever changes
+    var threshold = parseFloat(field('matchThreshold').value);
+
+    return {
+      name: field('name').value.trim(),
+      description: field('description').value.trim(),
+      priority: parseInt(field('priority').value, 10),
+      active: field('active').checked,
+      criteria: criteria,
+      matchThreshold: isNaN(threshold) || threshold === DEFAULT_MATCH_THRESHOLD ? null : threshold,
+      stopProcessing: field('stopProcessing').value ? field('stopProcessing').value === 'true' : null,
+      actions: actions
+    };
+  }
+
+  $('ruleForm').addEventListener('submit', function (event) {
+    event.preventDefault();
+    var rule;
+    try { rule = readForm(); } catch (error) { $('error').textContent = error.message; return; }
+    var request = editingId ? api('PUT', '/rules/' + encodeURIComponent(editingId), rule) : api('POST', '/rules', rule);
+    request.then(function () {
+      $('editor').hidden = true;
+      loadRules();
+    }).catch(function (error) { $('error').textContent = error.message; });
+  });
+
+  $('rules').addEventListener('click', function (event) {
+    var target = event.target;
+    if (target.dataset.edit) {
+      openEditor(rulesById[target.dataset.edit]);
+    } else if (target.dataset.delete && confirm('Delete rule "' + rulesById[target.dataset.delete].name + '"?')) {
+      api('DELETE', '/rules/' + encodeURIComponent(target.dataset.delete)).then(loadRules);
+    }
+  });
+
+  $('newRule').addEventListener('click', function () { openEditor(null); });
+  $('cancelEdit').addEventListener('click', function () { $('editor').hidden = true; });
+  $('refreshConnections').addEventListener('click', checkConnections);
+  $('logout').addEventListener('click', function () { sessionStorage.removeItem(TOKEN_KEY); showLogin(''); });
+  $('signin').addEventListener('click', function () {
+    sessionStorage.setItem(TOKEN_KEY, $('token').value);
+    api('GET', '/stats').then(showApp).catch(function () {});
+  });
+
+  if (sessionStorage.getItem(TOKEN_KEY)) {
+    showApp();
+  } else {
+    showLogin('');
+  }
+  setInterval(function () { if (!$('app').hidden) refresh(); }, 10000);
+})();
+`;
+
+// Build the dashboard router (the page itself is static - all data goes through the authenticated /api)
+export const createDashboardRouter = (): express.Router => {
+  const router = express.Router();
+
+  router.use((_req, res, next) => {
+    res.set('Content-Security-Policy', "default-src 'self'; style-src 'self' 'unsafe-inline'; frame-ancestors 'none'");
+    res.set('X-Content-Type-Options', 'nosniff');
+    next();
+  });
+
+  router.get('/', (_req, res) => {
+    res.type('html').send(DASHBOARD_HTML);
+  });
+
+  router.get('/app.js', (_req, res) => {
+    res.type('application/javascript').send(DASHBOARD_JS);
+  });
+
+  return router;
+};
@@ -0,0 +1,114 @@
+// Dry-run mode - Gmail and Todoist writes are recorded instead of executed, and local agent state is left untouched
+import { TaskData } from '../core/types';
+import { createLogger, getLogContext } from '../core/logger';
+import type { LedgerDecision } from './ledger';
+
+const log = createLogger('dry-run');
+
+export type DryRunActionType = 'add_label' | 'remove_label' | 'create_label' | 'create_task' | 'update_task' | 'queue_review';
+
+export interface DryRunAction {
+  type: DryRunActionType;
+  emailId?: string;
+  label?: string;
+  taskId?: string;
+  taskData?: TaskData;
+  detail?: string;
+  timestamp: string;
+}
+
+export interface DryRunEmail {
+  emailId: string;
+  from?: string;
+  subject?: string;
+  outcome?: string;
+  decision?: LedgerDecision;
+  error?: string;
+  actions: DryRunAction[];
+}
+
+export interface DryRunReport {
+  startedAt: string;
+  emails: DryRunEmail[];
+  otherActions: DryRunAction[]; // Recorded outside an email's processing run
+}
+
+// Global dry-run state (functional approach)
+let dryRunEnabled = false;
+let dryRunStartedAt = new Date().toISOString();
+let recordedActions: DryRunAction[] = [];
+let processedEmails = new Map<string, Omit<DryRunEmail, 'actions'>>();
+let taskCounter = 0;
+
+// Turn on dry-run mode for the rest of this process
+export const enableDryRun = (): void => {
+  if (dryRunEnabled) return;
+  dryRunEnabled = true;
+  dryRunStartedAt = new Date().toISOString();
+  log.warn('🧪 Dry-run mode: Gmail labels and Todoist tasks will be recorded, not applied');
+};
+
+export const isDryRun = (): boolean => {
+  return dryRunEnabled;
+};
+
+// Record a write that would have happened (attributed to the email being processed, if any)
+export const recordDryRunAction = (action: Omit<DryRunAction, 'timestamp'>): void => {
+  const recorded: DryRunAction = {
+    ...action,
+    emailId: action.emailId || getLogContext()?.emailId,
+    timestamp: new Date().toISOString()
+  };
+  recordedActions.push(recorded);
+  log.info(`🧪 Would ${describeDryRunAction(recorded)}`);
+};
+
+// Placeholder ID for a task that was not created
+export const nextDryRunTaskId = (): string => {
+  taskCounter++;
+  return `dry-run-${taskCounter}`;
+};
+
+// Record how the pipeline decided on an email
+export const recordDryRunEmail = (email: Omit<DryRunEmail, 'actions'>): void => {
+  processedEmails.set(email.emailId, email);
+};
+
+// Everything recorded so far, grouped by email
+export const getDryRunReport = (): DryRunReport => {
+  const emails = new Map<string, DryRunEmail>();
+  processedEmails.forEach((email, emailId) => {
+    emails.set(emailId, { ...email, actions: [] });
+  });
+
+  const otherActions: DryRunAction[] = [];
+  recordedActions.forEach(action => {
+    if (!action.emailId) {
+      otherActions.push(action);
+      return;
+    }
+    const email = emails.get(action.emailId) || { emailId: action.emailId, actions: [] };
+    email.actions.push(action);
+    emails.set(action.emailId, email);
+  });
+
+  return { startedAt: dryRunStartedAt, emails: Array.from(emails.values()), otherActions };
+};
+
+// Human-readable description of a recorded action
+export const describeDryRunAction = (action: DryRunAction): string => {
+  switch (action.type) {
+    case 'add_label':
+      return `add label ${action.label} to email ${action.emailId}`;
+    case 'remove_label':
+      return `remove label ${action.label} from email ${action.emailId}`;
+    case 'create_label':
+      return `create Gmail label ${action.label}`;
+    case 'create_task':
+      return `create task "${action.taskData?.title}"${action.emailId ? ` for email ${action.emailId}` : ''}`;
+    case 'update_task':
+      return `${action.detail || `update task ${action.taskId}`}`;
+    case 'queue_review':
+      return `queue email ${action.emailId} for review${action.detail ? ` (${action.detail})` : ''}`;
+  }
+};
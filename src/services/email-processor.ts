@@ -1,9 +1,19 @@
 // Phase 3: Enhanced email processor with AI and rules - functional approach
 import { EmailData, ProcessingResult } from '../core/types';
+import { createCounter, createHistogram } from '../core/metrics';
+import { createLogger, withLogContext, newCorrelationId } from '../core/logger';
 import { getEmails, getEmailById, addLabelToEmail, hasLabel, EmailQuery, markEmailProcessed } from './gmail';
-import { createTaskFromEmail } from './todoist';
-import { classifyEmail, isAIAvailable } from './ai-service';
-import { processEmailWithRules, initializeRuleEngine } from './rule-engine';
+import { buildTaskDataFromEmail, buildTaskDataFromAI, applyRuleActions } from './todoist';
+import { createOrUpdateThreadTask, initializeTaskMappings, TaskSubmitResult } from './task-mappings';
+import { classifyEmail, isAIAvailable, loadClassificationHistory, AIClassificationResult } from './ai-service';
+import { classifyEmailLocally, getLocalClassifierConfig } from './local-classifier';
+import { queueForReview, getReviewThreshold } from './review-queue';
+import { processEmailWithRules, initializeRuleEngine, flushRuleStats, FilterRule } from './rule-engine';
+import { initializeLedger, claimEmail, completeEmail, LedgerDecision } from './ledger';
+import { isDryRun, recordDryRunEmail } from './dry-run';
+import { createAuditRecord, withAuditRecord, saveAuditRecord, auditStep, updateAuditRecord, pruneAuditTrail, AuditRecord, AuditClassification } from './audit';
+
+const log = createLogger('email-processor');
 
 // Enhanced processing stats (matching original)
 export interface ProcessingStats {
@@ -11,6 +21,8 @@ export interface ProcessingStats {
   ruleMatched: number;
   aiProcessed: number;
   tasksCreated: number;
+  tasksUpdated: number;
+  queuedForReview: number;
   skipped: number;
   failed: number;
   processingTime: number;
@@ -20,11 +32,31 @@ export interface ProcessingContext {
   emailId: string;
   source: 'webhook' | 'batch' | 'manual';
   timestamp: Date;
+  correlationId?: string; // Defaults to a new ID per processing run
+  finalAttempt?: boolean; // Set by the job queue on the last retry - LLM failures then take the safe fallback
   ruleMatched?: boolean;
   aiClassified?: boolean;
   taskCreated?: boolean;
+  queuedForReview?: boolean;
+  decision?: LedgerDecision;
+  from?: string;
+  subject?: string;
+}
+
+// A processed email as shown on the dashboard
+export interface RecentResult extends ProcessingResult {
+  source: ProcessingContext['source'];
+  from?: string;
+  subject?: string;
+  decision?: LedgerDecision;
 }
 
+const MAX_RECENT_RESULTS = 50;
+
+const emailsProcessed = createCounter('todo_agent_emails_processed_total', 'Emails processed by source and outcome', ['source', 'outcome']);
+const processingDuration = createHistogram('todo_agent_email_processing_duration_seconds', 'End-to-end processing time per email in seconds', ['source']);
+const classifications = createCounter('todo_agent_classifications_total', 'Classification decisions by classifier and label', ['classifier', 'label']);
+
 // Global processing state (functional approach)
 let isProcessorInitialized = false;
 let processingStats: ProcessingStats = {
@@ -32,22 +64,29 @@ let processingStats: ProcessingStats = {
   ruleMatched: 0,
   aiProcessed: 0,
   tasksCreated: 0,
+  tasksUpdated: 0,
+  queuedForReview: 0,
   skipped: 0,
   failed: 0,
   processingTime: 0
 };
+let recentResults: RecentResult[] = [];
 
 // Initialize email processor
 export const initializeEmailProcessor = async (): Promise<void> => {
   if (isProcessorInitialized) return;
   
-  console.log('🔄 Initializing Email Processor...');
+  log.info('🔄 Initializing Email Processor...');
   
   // Initialize all services
   await initializeRuleEngine();
+  await initializeLedger();
+  await initializeTaskMappings();
+  await loadClassificationHistory();
+  await pruneAuditTrail();
   
   isProcessorInitialized = true;
-  console.log('✅ Email Processor initialized successfully');
+  log.info('✅ Email Processor initialized successfully');
 };
 
 // Enhanced process single email
@@ -59,19 +98,130 @@ export const processEmail = async (
     timestamp: new Date()
   }
 ): Promise<ProcessingResult> => {
+  // Every log line from this run carries the email ID, source and correlation ID
+  return withLogContext(
+    { emailId, source: context.source, correlationId: context.correlationId || newCorrelationId() },
+    () => processClaimedEmail(emailId, context)
+  );
+};
+
+const processClaimedEmail = async (emailId: string, context: ProcessingContext): Promise<ProcessingResult> => {
   if (!isProcessorInitialized) {
     await initializeEmailProcessor();
   }
 
+  const audit = createAuditRecord(emailId, context.source);
+
+  // Step 0: Consult the processing ledger before doing any work
+  const claim = await claimEmail(emailId, context.source);
+  if (!claim.claimed) {
+    emailsProcessed.inc({ source: context.source, outcome: 'duplicate' });
+    processingStats.skipped++;
+    log.info(` Email ${emailId} skipped by ledger: ${claim.reason}`);
+    audit.steps.push(`Skipped by processing ledger: ${claim.reason}`);
+    await saveAuditRecord({ ...audit, outcome: 'duplicate', taskId: claim.entry?.taskId, decision: claim.entry?.decision });
+    return {
+      success: true,
+      emailId,
+      taskId: claim.entry?.taskId,
+      error: claim.reason,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  const stopTimer = processingDuration.startTimer({ source: context.source });
+  const result = await withAuditRecord(audit, () => runEmailProcessing(emailId, context));
+  const seconds = stopTimer();
+
+  await recordOutcome(result, context);
+  await recordAudit(audit, result, context, seconds);
+  if (isDryRun()) {
+    recordDryRunEmail({
+      emailId,
+      from: context.from,
+      subject: context.subject,
+      decision: context.decision,
+      outcome: getOutcome(result, context),
+      error: result.error
+    });
+  }
+  rememberResult(result, context);
+  recordMetrics(result, context);
+  return result;
+};
+
+// Final outcome of a processing run
+const getOutcome = (result: ProcessingResult, context: ProcessingContext): 'task_created' | 'skipped' | 'review' | 'failed' => {
+  return !result.success ? 'failed' : context.queuedForReview ? 'review' : result.taskId ? 'task_created' : 'skipped';
+};
+
+// Count the outcome and the classification behind it
+const recordMetrics = (result: ProcessingResult, context: ProcessingContext): void => {
+  emailsProcessed.inc({ source: context.source, outcome: getOutcome(result, context) });
+
+  const decision = context.decision;
+  if (decision && decision.type !== 'label' && decision.type !== 'rule') {
+    classifications.inc({ classifier: decision.type, label: decision.label || 'unknown' });
+  }
+};
+
+// Keep the latest results in memory for the dashboard
+const rememberResult = (result: ProcessingResult, context: ProcessingContext): void => {
+  recentResults.unshift({
+    ...result,
+    source: context.source,
+    from: context.from,
+    subject: context.subject,
+    decision: context.decision
+  });
+  if (recentResults.length > MAX_RECENT_RESULTS) {
+    recentResults = recentResults.slice(0, MAX_RECENT_RESULTS);
+  }
+};
+
+// Record processing outcome in the ledger (never fails the processing result)
+const recordOutcome = async (result: ProcessingResult, context: ProcessingContext): Promise<void> => {
+  try {
+    await completeEmail(result.emailId, {
+      status: getOutcome(result, context),
+      decision: context.decision,
+      taskId: result.taskId,
+      error: result.error
+    });
+  } catch (error) {
+    log.error(`❌ Failed to record ledger entry for ${result.emailId}:`, error);
+  }
+};
+
+// Complete and persist the audit record built up during the run
+const recordAudit = async (audit: AuditRecord, result: ProcessingResult, context: ProcessingContext, seconds: number): Promise<void> => {
+  await saveAuditRecord({
+    ...audit,
+    from: context.from,
+    subject: context.subject,
+    decision: context.decision,
+    taskId: result.taskId || audit.taskId,
+    outcome: getOutcome(result, context),
+    error: result.error,
+    durationMs: Math.round(seconds * 1000)
+  });
+};
+
+// Run the processing pipeline for an email claimed in the ledger
+const runEmailProcessing = async (
+  emailId: string,
+  context: ProcessingContext
+): Promise<ProcessingResult> => {
   const startTime = Date.now();
   
   try {
-    console.log(`Processing email: ${emailId}`);
+    log.info(`Processing email: ${emailId}`);
     processingStats.totalProcessed++;
     
     // Get email data
     const email = await getEmailById(emailId);
     if (!email) {
+      auditStep('Email not found in Gmail');
       return {
         success: false,
         emailId,
@@ -79,11 +229,14 @@ export const processEmail = async (
         timestamp: new Date().toISOString()
       };
     }
+    context.from = email.from;
+    context.subject = email.subject;
 
     // Step 1: Check if already successfully processed
     if (hasProcessedLabel(email)) {
+      auditStep('Email already carries a processed, skip or review label - skipped');
       processingStats.skipped++;
-      console.log(` Email ${emailId} already processed, skipping`);
+      log.info(` Email ${emailId} already processed, skipping`);
       return {
         success: true,
         emailId,
@@ -94,12 +247,13 @@ export const processEmail = async (
 
     // Step 1.5: Handle retry for failed emails
     if (hasLabel(email, 'TodoAgent_Failed')) {
-      console.log(`🔄 Retrying previously failed email ${emailId}`);
+      log.info(`🔄 Retrying previously failed email ${emailId}`);
       // Note: The failed label will be replaced with success/failed based on this attempt
     }
 
     // Step 2: Check if email should be skipped 
     if (hasLabel(email, 'TodoAgent_Skip')) {
+      auditStep('Email is labeled TodoAgent_Skip - skipped');
       processingStats.skipped++;
       return {
         success: true,
@@ -112,25 +266,40 @@ export const processEmail = async (
     // Step 3: Check if email already has action labels (from previous rule processing)
     if (hasActionLabel(email)) {
       context.ruleMatched = true;
+      context.decision = { type: 'label', reasoning: 'Email already had an action label' };
+      auditStep('Email already had an action label - creating a task from it');
       processingStats.ruleMatched++;
       return await processLabeledEmail(email, context);
     }
 
     // Step 4: Apply rules to unlabeled email (matching original)
     const ruleResult = await processEmailWithRules(email);
+    updateAuditRecord({ rules: ruleResult.evaluations });
     
     if (ruleResult.matched && ruleResult.rule) {
+      const actions = ruleResult.actions || ruleResult.rule.actions;
+      const combinedWith = (ruleResult.contributingRules || []).slice(1).map(rule => `"${rule.name}"`);
       context.ruleMatched = true;
+      context.decision = {
+        type: 'rule',
+        ruleId: ruleResult.rule.id,
+        label: actions.label,
+        confidence: ruleResult.confidence,
+        reasoning: `Matched rule "${ruleResult.rule.name}" on ${ruleResult.matchedCriteria.join(', ')}`
+          + (combinedWith.length > 0 ? `, combined with ${combinedWith.join(', ')}` : '')
+      };
       processingStats.ruleMatched++;
+      auditStep(`${context.decision.reasoning} (confidence: ${ruleResult.confidence.toFixed(2)})`);
       
-      // If rule applied a label, get updated email and process
-      const updatedEmail = await getEmailById(email.id);
-      if (updatedEmail && hasActionLabel(updatedEmail)) {
-        return await processLabeledEmail(updatedEmail, context);
+      // If rule applied an action label, create the task using the rule's actions
+      if (isActionLabel(actions.label)) {
+        auditStep(`Rule label ${actions.label} is an action label - creating a task with the rule's actions`);
+        return await processLabeledEmail(email, context, actions);
       }
       
       // If rule marked to skip AI, mark as processed
-      if (ruleResult.rule.actions.skipAI) {
+      if (actions.skipAI) {
+        auditStep('Rule is set to skip AI - skipped');
         await markEmailProcessed(email.id, 'skipped');
         processingStats.skipped++;
         return {
@@ -142,19 +311,24 @@ export const processEmail = async (
       }
     }
 
+    if (!ruleResult.matched) {
+      auditStep(`No rule matched (${ruleResult.evaluations?.length || 0} active rules evaluated)`);
+    }
+
     // Step 5: No rules matched - use AI classification (if available)
     return await processWithAI(email, context);
 
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-    console.error(`❌ Error processing email ${emailId}:`, error);
+    log.error(`❌ Error processing email ${emailId}:`, error);
+    auditStep(`Processing failed: ${errorMsg}`);
     processingStats.failed++;
     
     // Add failed label
     try {
       await markEmailProcessed(emailId, 'failed');
     } catch (labelError) {
-      console.error('❌ Could not add failed label:', labelError);
+      log.error('❌ Could not add failed label:', labelError);
     }
     
     return {
@@ -170,44 +344,52 @@ export const processEmail = async (
 };
 
 // Process multiple emails
-export const processEmails = async (queryParams: EmailQuery = {}): Promise<ProcessingResult[]> => {
+export const processEmails = async (
+  queryParams: EmailQuery = {},
+  source: ProcessingContext['source'] = 'manual'
+): Promise<ProcessingResult[]> => {
   const { query = 'is:unread', maxResults = 10 } = queryParams;
   
   try {
-    console.log(`📧 Processing emails with query: "${query}" (max: ${maxResults})`);
+    log.info(`📧 Processing emails with query: "${query}" (max: ${maxResults})`);
     
     // Get emails from Gmail
     const emails = await getEmails(queryParams);
     
     if (emails.length === 0) {
-      console.log('📧 No emails to process');
+      log.info('📧 No emails to process');
       return [];
     }
 
-    console.log(`📧 Found ${emails.length} emails to process`);
+    log.info(`📧 Found ${emails.length} emails to process`);
     
     // Process emails one by one (sequential to avoid rate limits)
     const results: ProcessingResult[] = [];
     
     for (const email of emails) {
-      const result = await processEmail(email.id);
+      const result = await processEmail(email.id, {
+        emailId: email.id,
+        source,
+        timestamp: new Date()
+      });
       results.push(result);
       
       // Small delay to avoid rate limiting
       await delay(1000);
     }
+    await flushRuleStats();
 
     // Log summary
     const successful = results.filter(r => r.success).length;
     const failed = results.filter(r => !r.success).length;
     const tasksCreated = results.filter(r => r.taskId).length;
     
-    console.log(`📊 Processing complete: ${successful} successful, ${failed} failed, ${tasksCreated} tasks created`);
+    log.info(`📊 Processing complete: ${successful} successful, ${failed} failed, ${tasksCreated} tasks created`);
     
     return results;
 
   } catch (error) {
-    console.error('❌ Error processing emails:', error);
+    log.error('❌ Error processing emails:', error);
     throw error;
   }
 };
@@ -215,18 +397,20 @@ export const processEmails = async (queryParams: EmailQuery = {}): Promise<Proce
 // Process email that already has action labels (matching original processLabeledEmail)
 const processLabeledEmail = async (
   email: EmailData, 
-  _context: ProcessingContext
+  _context: ProcessingContext,
+  ruleActions?: FilterRule['actions']
 ): Promise<ProcessingResult> => {
   try {
-    // Create Todoist task
-    const taskResult = await createTaskFromEmail(email);
+    // Create Todoist task, honoring the matched rules' actions
+    const taskData = buildTaskDataFromEmail(email);
+    const taskResult = await createOrUpdateThreadTask(email, ruleActions ? await applyRuleActions(taskData, email, ruleActions) : taskData);
     
     if (taskResult.success) {
       // Mark email as successfully processed
       await markEmailProcessed(email.id, 'success');
-      processingStats.tasksCreated++;
+      countTaskResult(taskResult);
       
-      console.log(`✅ Task created from labeled email ${email.id}: ${taskResult.taskId}`);
+      log.info(`✅ Task created from labeled email ${email.id}: ${taskResult.taskId}`);
       
       return {
         success: true,
@@ -237,7 +421,7 @@ const processLabeledEmail = async (
     } else {
       // Mark as failed
       await markEmailProcessed(email.id, 'failed');
-      console.error(`❌ Task creation failed for email ${email.id}: ${taskResult.error}`);
+      log.error(`❌ Task creation failed for email ${email.id}: ${taskResult.error}`);
       
       return {
         success: false,
@@ -261,29 +445,96 @@ const processWithAI = async (
   processingStats.aiProcessed++;
   
   try {
-    // Check capability instead of initializing
-    if (!isAIAvailable()) {
-      console.log(`⚠️ AI not available - falling back to basic classification for ${email.id}`);
-      return await processWithBasicClassification(email);
+    const localConfig = getLocalClassifierConfig();
+    const llmReady = isAIAvailable() && localConfig.mode !== 'standalone';
+    let aiResult: AIClassificationResult | null = null;
+
+    // Local classifier: standalone, cheap first pass, or stand-in when the LLM is unavailable
+    if (localConfig.mode !== 'off' && (localConfig.mode !== 'fallback' || !llmReady)) {
+      const localResult = classifyEmailLocally(email);
+      if (localResult && (!llmReady || localResult.confidence >= localConfig.confidenceThreshold)) {
+        aiResult = localResult;
+        context.decision = { type: 'local', label: localResult.suggestedLabel, confidence: localResult.confidence, reasoning: localResult.reasoning };
+        updateAuditRecord({ classification: toAuditClassification('local', localResult) });
+        auditStep(`Local classifier: ${localResult.suggestedLabel} (confidence: ${localResult.confidence})`);
+        log.info(`🧮 Local classification for ${email.id}: ${localResult.suggestedLabel} (confidence: ${localResult.confidence})`);
+      } else if (localResult) {
+        auditStep(`Local classifier below threshold (${localResult.confidence} < ${localConfig.confidenceThreshold}) - escalating to LLM`);
+        log.info(`🧮 Local classification for ${email.id} below threshold (${localResult.confidence}) - escalating to LLM`);
+      }
     }
 
-    // AI is ready, proceed with classification
-    const aiResult = await classifyEmail(email);
+    if (!aiResult) {
+      // Check capability instead of initializing
+      if (!llmReady) {
+        auditStep('LLM not available - using basic classification');
+        log.info(`⚠️ AI not available - falling back to basic classification for ${email.id}`);
+        return await processWithBasicClassification(email, context);
+      }
+
+      // AI is ready, proceed with classification
+      aiResult = await classifyEmail(email);
+
+      // LLM failures are usually transient - fail the run so it is retried with backoff, until the last attempt
+      if (aiResult.llm?.error && !context.finalAttempt) {
+        auditStep(`LLM classification failed (${aiResult.llm.error}) - will retry`);
+        await markEmailProcessed(email.id, 'failed');
+        return {
+          success: false,
+          emailId: email.id,
+          error: `LLM classification failed: ${aiResult.llm.error}`,
+          timestamp: new Date().toISOString()
+        };
+      }
+
+      context.decision = {
+        type: 'ai',
+        label: aiResult.suggestedLabel,
+        confidence: aiResult.confidence,
+        reasoning: aiResult.reasoning
+      };
+      updateAuditRecord({ classification: toAuditClassification('ai', aiResult) });
+      auditStep(aiResult.llm?.error
+        ? `LLM classification failed (${aiResult.llm.error}) - using safe fallback ${aiResult.suggestedLabel}`
+        : `LLM classification: ${aiResult.suggestedLabel} (confidence: ${aiResult.confidence})`);
+      
+      log.info(`🤖 AI classification for ${email.id}: ${aiResult.isActionable ? 'actionable' : 'not actionable'} (confidence: ${aiResult.confidence})`);
+    }
     
-    console.log(`🤖 AI classification for ${email.id}: ${aiResult.isActionable ? 'actionable' : 'not actionable'} (confidence: ${aiResult.confidence})`);
+    // Low confidence: let a human decide instead of acting on a guess
+    const reviewThreshold = getReviewThreshold();
+    if (reviewThreshold > 0 && aiResult.confidence < reviewThreshold) {
+      await queueForReview(
+        email,
+        aiResult,
+        context.decision?.type === 'local' ? 'local' : 'ai',
+        buildTaskDataFromAI(email, aiResult)
+      );
+      context.queuedForReview = true;
+      processingStats.queuedForReview++;
+      auditStep(`Confidence ${aiResult.confidence} below review threshold ${reviewThreshold} - queued for review`);
+      
+      return {
+        success: true,
+        emailId: email.id,
+        error: `Queued for review (confidence ${aiResult.confidence} < ${reviewThreshold})`,
+        timestamp: new Date().toISOString()
+      };
+    }
     
-    if (aiResult.isActionable && aiResult.taskData) {
+    if (aiResult.isActionable) {
+      auditStep('Classified as actionable - labeling and creating a task');
       // Apply the suggested label
       await addLabelToEmail(email.id, aiResult.suggestedLabel);
       
       // Create Todoist task using AI-generated task data
-      const taskResult = await createTaskFromEmail(email);
+      const taskResult = await createOrUpdateThreadTask(email, buildTaskDataFromAI(email, aiResult));
       
       if (taskResult.success) {
         await markEmailProcessed(email.id, 'success');
-        processingStats.tasksCreated++;
+        countTaskResult(taskResult);
         
-        console.log(`✅ AI-processed email ${email.id} created task: ${taskResult.taskId}`);
+        log.info(`✅ AI-processed email ${email.id} created task: ${taskResult.taskId}`);
         
         return {
           success: true,
@@ -303,11 +554,12 @@ const processWithAI = async (
       }
     } else {
       // Not actionable - mark as skip
+      auditStep('Classified as not actionable - skipped');
       await addLabelToEmail(email.id, 'TodoAgent_Skip');
       await markEmailProcessed(email.id, 'skipped');
       processingStats.skipped++;
       
-      console.log(`⏭️ AI determined email ${email.id} is not actionable`);
+      log.info(`⏭️ AI determined email ${email.id} is not actionable`);
       
       return {
         success: true,
@@ -317,16 +569,27 @@ const processWithAI = async (
       };
     }
   } catch (error) {
-    console.error(`❌ AI processing failed for ${email.id}, falling back to basic classification:`, error);
-    return await processWithBasicClassification(email);
+    log.error(`❌ AI processing failed for ${email.id}, falling back to basic classification:`, error);
+    auditStep(`AI processing failed (${error instanceof Error ? error.message : 'Unknown error'}) - using basic classification`);
+    return await processWithBasicClassification(email, context);
   }
 };
 
 // Fallback basic classification
-const processWithBasicClassification = async (email: EmailData): Promise<ProcessingResult> => {
+const processWithBasicClassification = async (
+  email: EmailData,
+  context: ProcessingContext
+): Promise<ProcessingResult> => {
   try {
     // Use the original simple logic from Phase 2
-    if (shouldSkipEmail(email)) {
+    const skip = shouldSkipEmail(email);
+    const label = skip ? 'TodoAgent_Skip' : 'TodoAgent_Task';
+    const reasoning = skip ? 'Sender or subject matched a skip keyword' : 'No skip keywords found';
+    context.decision = { type: 'basic', label, reasoning };
+    updateAuditRecord({ classification: { classifier: 'basic', label, isActionable: !skip, reasoning, keywords: [] } });
+    auditStep(`Basic classification: ${reasoning}`);
+    
+    if (skip) {
       await addLabelToEmail(email.id, 'TodoAgent_Skip');
       await markEmailProcessed(email.id, 'skipped');
       processingStats.skipped++;
@@ -339,12 +602,12 @@ const processWithBasicClassification = async (email: EmailData): Promise<Process
     }
 
     // Default to creating task
-    const taskResult = await createTaskFromEmail(email);
+    const taskResult = await createOrUpdateThreadTask(email, buildTaskDataFromEmail(email));
     
     if (taskResult.success) {
       await addLabelToEmail(email.id, 'TodoAgent_Task');
       await markEmailProcessed(email.id, 'success');
-      processingStats.tasksCreated++;
+      countTaskResult(taskResult);
       
       return {
         success: true,
@@ -368,17 +631,47 @@ const processWithBasicClassification = async (email: EmailData): Promise<Process
 };
 
 
+// Helper function: classification details for the audit trail
+const toAuditClassification = (classifier: 'local' | 'ai', result: AIClassificationResult): AuditClassification => {
+  return {
+    classifier,
+    label: result.suggestedLabel,
+    isActionable: result.isActionable,
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+    keywords: result.keywords,
+    llm: result.llm
+  };
+};
+
+// Helper function: count a created task, or a follow-up added to an existing thread task
+const countTaskResult = (taskResult: TaskSubmitResult): void => {
+  if (taskResult.updatedExisting) {
+    processingStats.tasksUpdated++;
+  } else {
+    processingStats.tasksCreated++;
+  }
+};
+
 // Helper function: check if email has processed label (using proper hasLabel function)
 const hasProcessedLabel = (email: EmailData): boolean => {
   return hasLabel(email, 'TodoAgent_Processed') || 
-         hasLabel(email, 'TodoAgent_Skip');
+         hasLabel(email, 'TodoAgent_Skip') ||
+         hasLabel(email, 'TodoAgent_Review');
   // Note: TodoAgent_Failed is NOT included here so failed emails can be retried
 };
 
+// Labels that mean "create a task for this email"
+const ACTION_LABELS = ['TodoAgent_Important', 'TodoAgent_Urgent', 'TodoAgent_Meeting', 'TodoAgent_Task'];
+
 // Helper function: check if email has action labels (matching original hasActionLabel)
 const hasActionLabel = (email: EmailData): boolean => {
-  const actionLabels = ['TodoAgent_Important', 'TodoAgent_Urgent', 'TodoAgent_Meeting', 'TodoAgent_Task'];
-  return actionLabels.some(label => hasLabel(email, label));
+  return ACTION_LABELS.some(label => hasLabel(email, label));
+};
+
+// Helper function: check if a label name is an action label
+const isActionLabel = (labelName: string): boolean => {
+  return ACTION_LABELS.includes(labelName);
 };
 
 // Helper function: determine if email should be skipped (basic classification)
@@ -403,6 +696,11 @@ export const getProcessingStats = (): ProcessingStats => {
   return { ...processingStats };
 };
 
+// Get the most recent processing results, newest first
+export const getRecentResults = (limit: number = MAX_RECENT_RESULTS): RecentResult[] => {
+  return recentResults.slice(0, limit);
+};
+
 // Reset processing statistics
 export const resetProcessingStats = (): void => {
   processingStats = {
@@ -410,11 +708,13 @@ export const resetProcessingStats = (): void => {
     ruleMatched: 0,
     aiProcessed: 0,
     tasksCreated: 0,
+    tasksUpdated: 0,
+    queuedForReview: 0,
     skipped: 0,
     failed: 0,
     processingTime: 0
   };
-  console.log('📊 Processing statistics reset');
+  log.info('📊 Processing statistics reset');
 };
 
 // Helper function: simple delay
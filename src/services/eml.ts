@@ -0,0 +1,203 @@
+// EML files - turns saved RFC 822 messages into EmailData so they can be run through the agent offline
+import fs from 'fs/promises';
+import path from 'path';
+import { EmailData, EmailAttachment } from '../core/types';
+import { limitEmailText } from './gmail';
+
+interface MimePart {
+  headers: { [name: string]: string };
+  body: string;
+}
+
+interface ParsedBody {
+  text: string[];
+  html: string[];
+  attachments: EmailAttachment[];
+}
+
+// Read .eml files - directories are expanded to the .eml files they contain
+export const loadEmlFiles = async (paths: string[]): Promise<EmailData[]> => {
+  const files: string[] = [];
+  for (const entry of paths) {
+    const stat = await fs.stat(entry);
+    if (stat.isDirectory()) {
+      const names = (await fs.readdir(entry)).filter(name => name.toLowerCase().endsWith('.eml')).sort();
+      files.push(...names.map(name => path.join(entry, name)));
+    } else {
+      files.push(entry);
+    }
+  }
+
+  const emails: EmailData[] = [];
+  for (const file of files) {
+    const content = await fs.readFile(file, 'latin1');
+    emails.push(parseEml(content, `eml:${path.basename(file)}`));
+  }
+  return emails;
+};
+
+// Parse a raw message (read as latin1 so every byte survives until the charset is known)
+export const parseEml = (raw: string, id: string): EmailData => {
+  const message = splitPart(raw);
+  const parsed: ParsedBody = { text: [], html: [], attachments: [] };
+  collectBodies(message, parsed);
+
+  const text = parsed.text.length > 0
+    ? parsed.text.join('\n\n')
+    : parsed.html.map(stripHtml).join('\n\n');
+  const { body, snippet } = limitEmailText(text.trim());
+  const date = message.headers['date'] ? new Date(message.headers['date']) : new Date();
+  const precedence = (message.headers['precedence'] || '').toLowerCase();
+
+  return {
+    id,
+    threadId: id,
+    from: decodeHeader(message.headers['from'] || ''),
+    to: decodeHeader(message.headers['to'] || ''),
+    cc: decodeHeader(message.headers['cc'] || ''),
+    bcc: decodeHeader(message.headers['bcc'] || ''),
+    replyTo: decodeHeader(message.headers['reply-to'] || ''),
+    subject: decodeHeader(message.headers['subject'] || ''),
+    body,
+    snippet,
+    labelIds: [],
+    timestamp: isNaN(date.getTime()) ? new Date() : date,
+    attachments: parsed.attachments,
+    listId: decodeHeader(message.headers['list-id'] || ''),
+    isMailingList: !!(message.headers['list-id'] || message.headers['list-unsubscribe'] || precedence === 'list' || precedence === 'bulk')
+  };
+};
+
+// Split a message or MIME part into unfolded, lower-cased headers and the raw body
+const splitPart = (raw: string): MimePart => {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerText = match ? raw.substring(0, match.index) : raw;
+  const body = match ? raw.substring(match.index! + match[0].length) : '';
+
+  const headers: { [name: string]: string } = {};
+  headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/).forEach(line => {
+    const colon = line.indexOf(':');
+    if (colon <= 0) return;
+    const name = line.substring(0, colon).trim().toLowerCase();
+    if (headers[name] === undefined) {
+      headers[name] = line.substring(colon + 1).trim();
+    }
+  });
+
+  return { headers, body };
+};
+
+// Walk the MIME tree collecting text bodies and attachment metadata
+const collectBodies = (part: MimePart, parsed: ParsedBody): void => {
+  const contentType = part.headers['content-type'] || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = getHeaderParam(contentType, 'boundary');
+    if (!boundary) return;
+    const sections = part.body.split(`--${boundary}`);
+    // Drop the preamble and everything after the closing boundary
+    sections.slice(1).forEach(section => {
+      if (section.startsWith('--')) return;
+      collectBodies(splitPart(section.replace(/^\r?\n/, '')), parsed);
+    });
+    return;
+  }
+
+  const disposition = part.headers['content-disposition'] || '';
+  const filename = getFilename(disposition, 'filename') || getFilename(contentType, 'name');
+  if (disposition.toLowerCase().startsWith('attachment') || (filename && !mimeType.startsWith('text/'))) {
+    parsed.attachments.push({
+      filename: filename || 'attachment',
+      mimeType,
+      size: decodeTransfer(part.body, part.headers['content-transfer-encoding']).length
+    });
+    return;
+  }
+
+  if (mimeType === 'text/plain' || mimeType === 'text/html') {
+    const text = decodeBody(part.body, part.headers['content-transfer-encoding'], getHeaderParam(contentType, 'charset'));
+    (mimeType === 'text/plain' ? parsed.text : parsed.html).push(text);
+  }
+};
+
+const decodeBody = (body: string, encoding: string = '', charset?: string): string => {
+  return decodeTransfer(body, encoding).toString(toBufferEncoding(charset));
+};
+
+const decodeTransfer = (body: string, encoding: string = ''): Buffer => {
+  const transfer = encoding.trim().toLowerCase();
+  if (transfer === 'base64') {
+    return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+  }
+  if (transfer === 'quoted-printable') {
+    return decodeQuotedPrintable(body.replace(/=\r?\n/g, ''));
+  }
+  return Buffer.from(body, 'latin1');
+};
+
+const decodeQuotedPrintable = (text: string): Buffer => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const hex = text.substring(i + 1, i + 3);
+    if (text[i] === '=' && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(text.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+// Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?=
+const decodeHeader = (value: string): string => {
+  const decoded = value.replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=(\s+(?==\?))?/g, (_match, charset: string, type: string, text: string) => {
+    const bytes = type.toUpperCase() === 'B'
+      ? Buffer.from(text, 'base64')
+      : decodeQuotedPrintable(text.replace(/_/g, ' '));
+    return bytes.toString(toBufferEncoding(charset));
+  });
+  // Plain header bytes were read as latin1 - re-read them as UTF-8 when they form valid UTF-8
+  const utf8 = Buffer.from(decoded, 'latin1').toString('utf8');
+  return /[^\x00-\xff]/.test(decoded) || utf8.includes('\uFFFD') ? decoded : utf8;
+};
+
+const getHeaderParam = (header: string, name: string): string | undefined => {
+  const match = header.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : undefined;
+};
+
+// Filename from a header parameter - plain, RFC 2047 encoded, or RFC 2231 (filename*=utf-8''...)
+const getFilename = (header: string, name: string): string | undefined => {
+  const extended = getHeaderParam(header, `${name}\\*`);
+  if (extended) {
+    const [charset, , value] = extended.split("'");
+    if (value === undefined) return extended;
+    const bytes = Buffer.from(value.replace(/%([0-9A-Fa-f]{2})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16))), 'latin1');
+    return bytes.toString(toBufferEncoding(charset || undefined));
+  }
+  const plain = getHeaderParam(header, name);
+  return plain ? decodeHeader(plain) : undefined;
+};
+
+const toBufferEncoding = (charset: string = 'utf-8'): BufferEncoding => {
+  const normalized = charset.toLowerCase();
+  if (normalized === 'iso-8859-1' || normalized === 'latin1' || normalized === 'windows-1252' || normalized === 'us-ascii') {
+    return 'latin1';
+  }
+  return 'utf8';
+};
+
+const stripHtml = (html: string): string => {
+  return html
+    .replace(/<(style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+};
@@ -0,0 +1,147 @@
+// Feedback - detects user corrections to agent decisions and feeds them back into rules and AI learning
+import { getDataPath, readJsonFile, writeJsonFile } from '../core/storage';
+import { EmailData } from '../core/types';
+import { createLogger } from '../core/logger';
+import { getEmailById, hasLabel, listLabels } from './gmail';
+import { initializeLedger, listLedgerEntries, getLedgerEntry, LedgerDecision } from './ledger';
+import { recordRuleCorrection } from './rule-engine';
+import { recordCorrection } from './ai-service';
+import { TaskMapping } from './task-mappings';
+
+const log = createLogger('feedback');
+
+export type CorrectionType = 'label_removed' | 'skip_added' | 'task_deleted';
+
+export interface FeedbackRecord {
+  emailId: string;
+  type: CorrectionType;
+  decision: LedgerDecision;
+  originalLabel?: string;
+  correctedLabel: string;
+  taskId?: string;
+  detectedAt: string;
+}
+
+export interface FeedbackScanResult {
+  checked: number;
+  corrections: number;
+}
+
+const ACTION_LABELS = ['TodoAgent_Important', 'TodoAgent_Urgent', 'TodoAgent_Meeting', 'TodoAgent_Task'];
+
+const getFeedbackFilePath = (): string => getDataPath('feedback.json');
+
+// Load recorded feedback
+export const listFeedback = async (): Promise<FeedbackRecord[]> => {
+  return (await readJsonFile<FeedbackRecord[]>(getFeedbackFilePath())) || [];
+};
+
+// Scan recently created tasks for label corrections made in Gmail
+export const runFeedbackScan = async (
+  lookbackDays: number = parseInt(process.env.FEEDBACK_LOOKBACK_DAYS || '7'),
+  maxEmails: number = 50
+): Promise<FeedbackScanResult> => {
+  await initializeLedger();
+  const known = new Set((await listFeedback()).map(record => record.emailId));
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const candidates = listLedgerEntries('task_created')
+    .filter(entry => entry.updatedAt >= since && !known.has(entry.emailId) && isCorrectableDecision(entry.decision))
+    .slice(0, maxEmails);
+
+  if (candidates.length === 0) {
+    return { checked: 0, corrections: 0 };
+  }
+
+  // hasLabel resolves IDs through the label cache - make sure it is fresh before comparing
+  await listLabels();
+
+  let corrections = 0;
+  for (const entry of candidates) {
+    const email = await getEmailById(entry.emailId);
+    if (!email) continue;
+
+    const decision = entry.decision!;
+    const correction = detectLabelCorrection(email, decision);
+    if (correction) {
+      await applyCorrection(email, {
+        emailId: email.id,
+        type: correction.type,
+        decision,
+        originalLabel: decision.label,
+        correctedLabel: correction.correctedLabel,
+        taskId: entry.taskId,
+        detectedAt: new Date().toISOString()
+      });
+      corrections++;
+    }
+  }
+
+  log.info(`🔁 Feedback scan: ${candidates.length} emails checked, ${corrections} corrections found`);
+  return { checked: candidates.length, corrections };
+};
+
+// A task the agent created was deleted in Todoist without being completed
+export const recordTaskDeletedFeedback = async (mapping: TaskMapping): Promise<void> => {
+  await initializeLedger();
+  const known = new Set((await listFeedback()).map(record => record.emailId));
+
+  // The first email in the mapping is the one that created the task
+  const emailId = mapping.emailIds[0];
+  const entry = getLedgerEntry(emailId);
+  if (!entry || known.has(emailId) || !isCorrectableDecision(entry.decision)) {
+    return;
+  }
+
+  const email = await getEmailById(emailId);
+  if (!email) return;
+
+  await applyCorrection(email, {
+    emailId,
+    type: 'task_deleted',
+    decision: entry.decision!,
+    originalLabel: entry.decision!.label,
+    correctedLabel: 'TodoAgent_Skip',
+    taskId: mapping.taskId,
+    detectedAt: new Date().toISOString()
+  });
+};
+
+// Compare current Gmail labels with what the agent decided
+const detectLabelCorrection = (
+  email: EmailData,
+  decision: LedgerDecision
+): { type: CorrectionType; correctedLabel: string } | null => {
+  if (hasLabel(email, 'TodoAgent_Skip')) {
+    return { type: 'skip_added', correctedLabel: 'TodoAgent_Skip' };
+  }
+
+  if (decision.label && ACTION_LABELS.includes(decision.label) && !hasLabel(email, decision.label)) {
+    // Swapped for another action label = wrong category; removed entirely = not a task
+    const replacement = ACTION_LABELS.find(label => hasLabel(email, label));
+    return { type: 'label_removed', correctedLabel: replacement || 'TodoAgent_Skip' };
+  }
+
+  return null;
+};
+
+// Record the correction and attribute it to the rule or classifier that made the decision
+const applyCorrection = async (email: EmailData, record: FeedbackRecord): Promise<void> => {
+  if (record.decision.type === 'rule' && record.decision.ruleId) {
+    await recordRuleCorrection(record.decision.ruleId);
+  } else {
+    await recordCorrection(email, record.correctedLabel);
+  }
+
+  const records = await listFeedback();
+  records.push(record);
+  await writeJsonFile(getFeedbackFilePath(), records);
+
+  const source = record.decision.type === 'rule' ? `rule ${record.decision.ruleId}` : `${record.decision.type} classification`;
+  log.info(`🔁 Correction on ${email.id} (${record.type}): ${record.originalLabel || 'unknown'} → ${record.correctedLabel}, attributed to ${source}`);
+};
+
+// Only rule and classifier decisions can be corrected (pre-labelled emails had no agent decision)
+const isCorrectableDecision = (decision?: LedgerDecision): boolean => {
+  return !!decision && decision.type !== 'label';
+};
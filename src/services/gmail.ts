@@ -1,6 +1,11 @@
 // Simple Gmail service using Composio actions (following original patterns and docs)
 import { executeAction, getActiveGmailAccount } from './composio';
-import { EmailData } from '../core/types';
+import { EmailData, EmailAttachment } from '../core/types';
+import { createLogger } from '../core/logger';
+import { auditLabelApplied } from './audit';
+import { isDryRun, recordDryRunAction } from './dry-run';
+
+const log = createLogger('gmail');
 
 export interface EmailQuery {
   query?: string;
@@ -18,7 +23,7 @@ export const getEmails = async (queryParams: EmailQuery = {}): Promise<EmailData
       throw new Error('No active Gmail account found');
     }
 
-    console.log(`📧 Fetching emails with query: ${query}`);
+    log.info(`📧 Fetching emails with query: ${query}`);
     const result = await executeAction('GMAIL_FETCH_EMAILS', {
       connectedAccountId: gmailAccount.id,
       arguments: {
@@ -32,40 +37,91 @@ export const getEmails = async (queryParams: EmailQuery = {}): Promise<EmailData
 
     // Match original result structure check
     if (!result.successful || !result.data?.messages) {
-      console.log('📧 No emails found');
+      log.info('📧 No emails found');
       return [];
     }
 
-    console.log(`📧 Found ${result.data.messages.length} emails`);
+    log.info(`📧 Found ${result.data.messages.length} emails`);
     
-    // Transform Gmail API response to our EmailData format (matching original parseEmailData)
-    return result.data.messages.map((message: any) => {
-      const headers = message.payload?.headers || [];
-      const getHeader = (name: string) => 
-        headers.find((h: any) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
-      
-      const body = message.messageText || '';
-      const snippet = body.substring(0, 150).replace(/[\r\n]/g, ' ').trim();
-      
-      return {
-        id: message.messageId || message.id,
-        from: getHeader('From'),
-        to: getHeader('To'),
-        subject: getHeader('Subject'),
-        body: body.substring(0, 5000),
-        snippet: snippet,
-        labelIds: message.labelIds || [],
-        threadId: message.messageId || message.threadId,
-        timestamp: new Date(message.messageTimestamp || Date.now())
-      };
-    });
+    // Transform Gmail API response to our EmailData format
+    const emails: EmailData[] = result.data.messages.map(parseEmailData);
+    for (const email of emails) {
+      email.labelNames = await resolveLabelNames(email.labelIds);
+    }
+    return emails;
 
   } catch (error) {
-    console.error('❌ Failed to fetch emails:', error);
+    log.error('❌ Failed to fetch emails:', error);
     throw error;
   }
 };
 
+// Transform a Gmail API message to our EmailData format (matching original parseEmailData)
+const parseEmailData = (message: any): EmailData => {
+  const headers = message.payload?.headers || [];
+  const getHeader = (name: string) => 
+    headers.find((h: any) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
+  
+  const { body, snippet } = limitEmailText(message.messageText || '');
+  const id = message.messageId || message.id;
+  
+  const precedence = getHeader('Precedence').toLowerCase();
+  
+  return {
+    id,
+    from: getHeader('From'),
+    to: getHeader('To'),
+    cc: getHeader('Cc'),
+    bcc: getHeader('Bcc'),
+    replyTo: getHeader('Reply-To'),
+    subject: getHeader('Subject'),
+    body,
+    snippet,
+    labelIds: message.labelIds || [],
+    // Fall back to the message ID only when Gmail did not return a thread
+    threadId: message.threadId || id,
+    timestamp: new Date(message.messageTimestamp || Date.now()),
+    attachments: parseAttachments(message),
+    listId: getHeader('List-Id'),
+    isMailingList: !!(getHeader('List-Id') || getHeader('List-Unsubscribe') || precedence === 'list' || precedence === 'bulk')
+  };
+};
+
+// Body and snippet as processing sees them - shared with .eml parsing so rule tests match the same text
+export const limitEmailText = (text: string): { body: string; snippet: string } => ({
+  body: text.substring(0, 5000),
+  snippet: text.substring(0, 150).replace(/[\r\n]/g, ' ').trim()
+});
+
+// Attachment metadata from the MIME parts (Composio's attachmentList when the payload has no parts)
+const parseAttachments = (message: any): EmailAttachment[] => {
+  const attachments: EmailAttachment[] = [];
+  const walk = (part: any) => {
+    if (!part) return;
+    if (part.filename) {
+      attachments.push({
+        filename: part.filename,
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body?.size || 0
+      });
+    }
+    (part.parts || []).forEach(walk);
+  };
+  walk(message.payload);
+
+  if (attachments.length === 0 && Array.isArray(message.attachmentList)) {
+    message.attachmentList
+      .filter((attachment: any) => attachment?.filename)
+      .forEach((attachment: any) => attachments.push({
+        filename: attachment.filename,
+        mimeType: attachment.mimeType || 'application/octet-stream',
+        size: attachment.size || 0
+      }));
+  }
+
+  return attachments;
+};
+
 // Get specific email by ID
 export const getEmailById = async (emailId: string): Promise<EmailData | null> => {
   try {
@@ -87,34 +143,23 @@ export const getEmailById = async (emailId: string): Promise<EmailData | null> =
     }
 
     // Use same parsing logic as getEmails
-    const message = result.data;
-    const headers = message.payload?.headers || [];
-    const getHeader = (name: string) => 
-      headers.find((h: any) => h.name.toLowerCase() === name.toLowerCase())?.value || '';
-    
-    const body = message.messageText || '';
-    const snippet = body.substring(0, 150).replace(/[\r\n]/g, ' ').trim();
-    
-    return {
-      id: message.messageId || message.id,
-      from: getHeader('From'),
-      to: getHeader('To'),
-      subject: getHeader('Subject'),
-      body: body.substring(0, 5000),
-      snippet: snippet,
-      labelIds: message.labelIds || [],
-      threadId: message.messageId || message.threadId,
-      timestamp: new Date(message.messageTimestamp || Date.now())
-    };
+    const email = parseEmailData(result.data);
+    email.labelNames = await resolveLabelNames(email.labelIds);
+    return email;
 
   } catch (error) {
-    console.error(`❌ Failed to fetch email ${emailId}:`, error);
+    log.error(`❌ Failed to fetch email ${emailId}:`, error);
     return null;
   }
 };
 
 // Add label to email (matching original applyLabel logic)
 export const addLabelToEmail = async (emailId: string, labelName: string): Promise<boolean> => {
+  if (isDryRun()) {
+    recordDryRunAction({ type: 'add_label', emailId, label: labelName });
+    return true;
+  }
+
   try {
     const gmailAccount = await getActiveGmailAccount();
     if (!gmailAccount) {
@@ -124,11 +169,11 @@ export const addLabelToEmail = async (emailId: string, labelName: string): Promi
     // First get label ID by name (matching original getLabelId logic)
     const labelId = await getLabelId(labelName);
     if (!labelId) {
-      console.error(`❌ Label not found: ${labelName}`);
+      log.error(`❌ Label not found: ${labelName}`);
       return false;
     }
 
-    console.log(`🏷️ Adding label "${labelName}" to email ${emailId}`);
+    log.info(`🏷️ Adding label "${labelName}" to email ${emailId}`);
     
     const result = await executeAction('GMAIL_ADD_LABEL_TO_EMAIL', {
       connectedAccountId: gmailAccount.id,
@@ -139,21 +184,26 @@ export const addLabelToEmail = async (emailId: string, labelName: string): Promi
     });
 
     if (result.successful) {
-      console.log(`✅ Label "${labelName}" added to email ${emailId}`);
+      log.info(`✅ Label "${labelName}" added to email ${emailId}`);
+      auditLabelApplied(labelName);
       return true;
     } else {
-      console.error(`❌ Failed to apply label ${labelName}:`, result.error);
+      log.error(`❌ Failed to apply label ${labelName}:`, result.error);
       return false;
     }
 
   } catch (error) {
-    console.error(`❌ Failed to add label to email ${emailId}:`, error);
+    log.error(`❌ Failed to add label to email ${emailId}:`, error);
     return false;
   }
 };
 
 // Label cache for performance (matching original)
 let labelCache = new Map<string, {id: string, name: string, type: string}>();
+let labelCacheRefreshedAt = 0;
+
+// Unknown label IDs trigger a cache refresh at most this often
+const LABEL_CACHE_REFRESH_MS = 5 * 60 * 1000;
 
 // Get label ID by name (matching original getLabelId)
 export const getLabelId = async (labelName: string): Promise<string | null> => {
@@ -171,6 +221,8 @@ export const getLabelId = async (labelName: string): Promise<string | null> => {
 
 // Refresh label cache (matching original)
 const refreshLabelCache = async (): Promise<void> => {
+  // Stamped on every attempt, so a failing list call is not retried for each email with an unknown label
+  labelCacheRefreshedAt = Date.now();
   try {
     const gmailAccount = await getActiveGmailAccount();
     if (!gmailAccount) {
@@ -193,10 +245,20 @@ const refreshLabelCache = async (): Promise<void> => {
       });
     }
   } catch (error) {
-    console.error('❌ Failed to refresh label cache:', error);
+    log.error('❌ Failed to refresh label cache:', error);
   }
 };
 
+// Resolve label IDs to names (system labels such as STARRED and CATEGORY_PROMOTIONS are named after their IDs)
+export const resolveLabelNames = async (labelIds: string[]): Promise<string[]> => {
+  const findName = (labelId: string) => Array.from(labelCache.values()).find(label => label.id === labelId)?.name;
+  
+  if (labelIds.some(labelId => !findName(labelId)) && Date.now() - labelCacheRefreshedAt > LABEL_CACHE_REFRESH_MS) {
+    await refreshLabelCache();
+  }
+  return labelIds.map(labelId => findName(labelId) || labelId);
+};
+
 // List Gmail labels
 export const listLabels = async (): Promise<Array<{id: string, name: string}>> => {
   try {
@@ -212,20 +274,25 @@ export const listLabels = async (): Promise<Array<{id: string, name: string}>> =
     }));
 
   } catch (error) {
-    console.error('❌ Failed to list labels:', error);
+    log.error('❌ Failed to list labels:', error);
     return [];
   }
 };
 
 // Create Gmail label (matching original logic)
 export const createLabel = async (labelName: string): Promise<string | null> => {
+  if (isDryRun()) {
+    recordDryRunAction({ type: 'create_label', label: labelName });
+    return `dry-run-${labelName}`;
+  }
+
   try {
     const gmailAccount = await getActiveGmailAccount();
     if (!gmailAccount) {
       throw new Error('No active Gmail account found');
     }
 
-    console.log(`🏷️ Creating label: ${labelName}`);
+    log.info(`🏷️ Creating label: ${labelName}`);
     
     const result = await executeAction('GMAIL_CREATE_LABEL', {
       connectedAccountId: gmailAccount.id,
@@ -235,7 +302,7 @@ export const createLabel = async (labelName: string): Promise<string | null> =>
     });
 
     if (result.successful && result.data && result.data.id) {
-      console.log(`✅ Label "${labelName}" created with ID: ${result.data.id}`);
+      log.info(`✅ Label "${labelName}" created with ID: ${result.data.id}`);
       // Update cache
       labelCache.set(labelName, {
         id: result.data.id,
@@ -244,12 +311,12 @@ export const createLabel = async (labelName: string): Promise<string | null> =>
       });
       return result.data.id;
     } else {
-      console.error(`❌ Failed to create label ${labelName}: API call failed`, result.error || result);
+      log.error(`❌ Failed to create label ${labelName}: API call failed`, result.error || result);
       return null;
     }
 
   } catch (error) {
-    console.error(`❌ Failed to create label "${labelName}":`, error);
+    log.error(`❌ Failed to create label "${labelName}":`, error);
     return null;
   }
 };
@@ -279,7 +346,7 @@ export const markEmailProcessed = async (emailId: string, status: 'success' | 'f
   
   // If marking as successful, remove any previous failed labels first
   if (status === 'success') {
-    console.log(`✅ Email ${emailId} succeeded - cleaning up any previous failure labels`);
+    log.info(`✅ Email ${emailId} succeeded - cleaning up any previous failure labels`);
     // Skip cleanup for now due to API limitations - the failed label will be overridden by success label
     // await removeLabelFromEmail(emailId, 'TodoAgent_Failed');
   }
@@ -287,8 +354,29 @@ export const markEmailProcessed = async (emailId: string, status: 'success' | 'f
   return await addLabelToEmail(emailId, labelName);
 };
 
+// Mark email as read (removes the UNREAD system label)
+export const markEmailRead = async (emailId: string): Promise<boolean> => {
+  return await removeLabelFromEmail(emailId, 'UNREAD');
+};
+
+// Archive email (removes the INBOX system label)
+export const archiveEmail = async (emailId: string): Promise<boolean> => {
+  return await removeLabelFromEmail(emailId, 'INBOX');
+};
+
+// Make sure a user label exists, creating it if needed
+export const ensureLabel = async (labelName: string): Promise<string | null> => {
+  const labelId = await getLabelId(labelName);
+  return labelId || await createLabel(labelName);
+};
+
 // Remove label from email
 export const removeLabelFromEmail = async (emailId: string, labelName: string): Promise<boolean> => {
+  if (isDryRun()) {
+    recordDryRunAction({ type: 'remove_label', emailId, label: labelName });
+    return true;
+  }
+
   try {
     const gmailAccount = await getActiveGmailAccount();
     if (!gmailAccount) {
@@ -298,11 +386,11 @@ export const removeLabelFromEmail = async (emailId: string, labelName: string):
     // Get label ID by name
     const labelId = await getLabelId(labelName);
     if (!labelId) {
-      console.warn(`⚠️ Label not found: ${labelName}`);
+      log.warn(`⚠️ Label not found: ${labelName}`);
       return false;
     }
 
-    console.log(`🗑️ Removing label "${labelName}" from email ${emailId}`);
+    log.info(`🗑️ Removing label "${labelName}" from email ${emailId}`);
     
     // Use the remove label action (since GMAIL_MODIFY_LABELS doesn't exist)
     const result = await executeAction('GMAIL_REMOVE_LABEL_FROM_EMAIL', {
@@ -314,15 +402,15 @@ export const removeLabelFromEmail = async (emailId: string, labelName: string):
     });
 
     if (result.error) {
-      console.error(`❌ Failed to remove label ${labelName}:`, result.error);
+      log.error(`❌ Failed to remove label ${labelName}:`, result.error);
       return false;
     }
 
-    console.log(`✅ Label "${labelName}" removed from email ${emailId}`);
+    log.info(`✅ Label "${labelName}" removed from email ${emailId}`);
     return true;
 
   } catch (error) {
-    console.error(`❌ Failed to remove label from email ${emailId}:`, error);
+    log.error(`❌ Failed to remove label from email ${emailId}:`, error);
     return false;
   }
 };
\ No newline at end of file
@@ -0,0 +1,331 @@
+// Job Queue - durable local queue between the webhook server and the email processor
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from '../core/storage';
+import { createLogger, getLogContext } from '../core/logger';
+import { processEmail } from './email-processor';
+import { isDryRun } from './dry-run';
+
+const log = createLogger('job-queue');
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface Job {
+  id: string;
+  emailId: string;
+  source: 'webhook' | 'batch' | 'manual';
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError?: string;
+  correlationId?: string; // Ties processing logs back to the webhook delivery
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface JobQueueConfig {
+  concurrency: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  pollIntervalMs: number;
+  keepCompleted: number;
+}
+
+export interface JobQueueStats {
+  pending: number;
+  running: number;
+  completed: number;
+  dead: number;
+  workerRunning: boolean;
+}
+
+type JobMap = { [id: string]: Job };
+
+// Queue configuration (JOB_CONCURRENCY, JOB_MAX_ATTEMPTS, JOB_BACKOFF_BASE_MS, JOB_BACKOFF_MAX_MS)
+export const getJobQueueConfig = (): JobQueueConfig => {
+  return {
+    concurrency: Math.max(1, parseInt(process.env.JOB_CONCURRENCY || '2')),
+    maxAttempts: Math.max(1, parseInt(process.env.JOB_MAX_ATTEMPTS || '5')),
+    backoffBaseMs: parseInt(process.env.JOB_BACKOFF_BASE_MS || '30000'),
+    backoffMaxMs: parseInt(process.env.JOB_BACKOFF_MAX_MS || '3600000'),
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS || '2000'),
+    keepCompleted: 500
+  };
+};
+
+// Global worker state (functional approach)
+const runningJobs = new Set<string>();
+let workerInterval: NodeJS.Timeout | null = null;
+let queueLock: Promise<unknown> = Promise.resolve();
+let dryRunJobs: JobMap = {};
+
+// The queue file is re-read on every operation so CLI commands and the running agent see each other's changes
+const getJobsFilePath = (): string => getDataPath('jobs.json');
+
+// A dry run keeps its own queue in memory - it must never take over or complete the real agent's jobs
+const loadJobs = async (): Promise<JobMap> => {
+  if (isDryRun()) return dryRunJobs;
+  return (await readJsonFile<JobMap>(getJobsFilePath())) || {};
+};
+
+// Read-modify-write the queue file, one operation at a time - queued within this process, file-locked across processes
+const withJobs = <T>(operation: (jobs: JobMap) => T | Promise<T>): Promise<T> => {
+  const run = queueLock.catch(() => undefined).then(() => {
+    if (isDryRun()) return operation(dryRunJobs);
+    return withFileLock(getJobsFilePath(), async () => {
+      const jobs = await loadJobs();
+      const result = await operation(jobs);
+      await writeJsonFile(getJobsFilePath(), jobs);
+      return result;
+    });
+  });
+  queueLock = run;
+  return run;
+};
+
+// Add an email processing job - an email already queued or running is not queued twice
+export const enqueueEmailJob = async (emailId: string, source: Job['source'] = 'webhook'): Promise<Job> => {
+  const config = getJobQueueConfig();
+
+  const job = await withJobs(jobs => {
+    const existing = Object.values(jobs).find(j => j.emailId === emailId && (j.status === 'pending' || j.status === 'running'));
+    if (existing) return existing;
+
+    const now = new Date().toISOString();
+    const newJob: Job = {
+      id: `job_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      emailId,
+      source,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: config.maxAttempts,
+      correlationId: getLogContext()?.correlationId,
+      nextRunAt: now,
+      createdAt: now,
+      updatedAt: now
+    };
+    jobs[newJob.id] = newJob;
+    return newJob;
+  });
+
+  // Don't wait for the next poll if the worker is running
+  if (workerInterval) {
+    void pumpJobs();
+  }
+  return job;
+};
+
+// Start the worker loop
+export const startJobWorker = async (): Promise<void> => {
+  if (workerInterval) return;
+
+  // Jobs left running by a crash or restart go back to the queue
+  const recovered = await withJobs(jobs => {
+    let count = 0;
+    Object.values(jobs).forEach(job => {
+      if (job.status === 'running') {
+        job.status = 'pending';
+        job.nextRunAt = new Date().toISOString();
+        job.updatedAt = job.nextRunAt;
+        count++;
+      }
+    });
+    return count;
+  });
+  if (recovered > 0) {
+    log.info(`♻️ Recovered ${recovered} interrupted job(s)`);
+  }
+
+  const config = getJobQueueConfig();
+  workerInterval = setInterval(() => {
+    void pumpJobs();
+  }, config.pollIntervalMs);
+
+  log.info(`✅ Job worker started (concurrency: ${config.concurrency}, max attempts: ${config.maxAttempts})`);
+  void pumpJobs();
+};
+
+// Stop the worker loop (jobs already running are allowed to finish)
+export const stopJobWorker = (): void => {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+    log.info('🛑 Job worker stopped');
+  }
+};
+
+// List jobs, newest first
+export const listJobs = async (status?: JobStatus): Promise<Job[]> => {
+  const jobs = await loadJobs();
+  return Object.values(jobs)
+    .filter(job => !status || job.status === status)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+// Get a single job
+export const getJob = async (id: string): Promise<Job | undefined> => {
+  const jobs = await loadJobs();
+  return jobs[id];
+};
+
+// Queue counts
+export const getJobQueueStats = async (): Promise<JobQueueStats> => {
+  const jobs = await listJobs();
+  const count = (status: JobStatus) => jobs.filter(job => job.status === status).length;
+  return {
+    pending: count('pending'),
+    running: count('running'),
+    completed: count('completed'),
+    dead: count('dead'),
+    workerRunning: !!workerInterval
+  };
+};
+
+// Move dead jobs back to the queue with a fresh set of attempts ('all' retries every dead job)
+export const retryJobs = async (id: string | 'all'): Promise<number> => {
+  return withJobs(jobs => {
+    const targets = id === 'all'
+      ? Object.values(jobs).filter(job => job.status === 'dead')
+      : [jobs[id]].filter(Boolean);
+
+    if (id !== 'all' && targets.length === 0) {
+      throw new Error(`No job found with ID ${id}`);
+    }
+
+    const now = new Date().toISOString();
+    targets.forEach(job => {
+      if (job.status === 'running') {
+        throw new Error(`Job ${job.id} is currently running`);
+      }
+      job.status = 'pending';
+      job.attempts = 0;
+      job.nextRunAt = now;
+      job.updatedAt = now;
+      job.completedAt = undefined;
+    });
+    return targets.length;
+  });
+};
+
+// Remove finished jobs ('completed', 'dead' or 'all' finished)
+export const purgeJobs = async (status: 'completed' | 'dead' | 'all'): Promise<number> => {
+  return withJobs(jobs => {
+    let removed = 0;
+    Object.values(jobs).forEach(job => {
+      const finished = job.status === 'completed' || job.status === 'dead';
+      if (finished && (status === 'all' || job.status === status)) {
+        delete jobs[job.id];
+        removed++;
+      }
+    });
+    return removed;
+  });
+};
+
+// Start as many due jobs as the concurrency limit allows
+const pumpJobs = async (): Promise<void> => {
+  const config = getJobQueueConfig();
+  const available = config.concurrency - runningJobs.size;
+  if (available <= 0) return;
+
+  try {
+    const claimed = await withJobs(jobs => {
+      const now = new Date().toISOString();
+      const due = Object.values(jobs)
+        .filter(job => job.status === 'pending' && job.nextRunAt <= now && !runningJobs.has(job.id))
+        .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt))
+        .slice(0, available);
+
+      due.forEach(job => {
+        job.status = 'running';
+        job.attempts++;
+        job.updatedAt = now;
+        runningJobs.add(job.id);
+      });
+      return due.map(job => ({ ...job }));
+    });
+
+    claimed.forEach(job => {
+      void runJob(job);
+    });
+  } catch (error) {
+    log.error('❌ Job queue poll failed:', error);
+  }
+};
+
+// Run one job and record the outcome
+const runJob = async (job: Job): Promise<void> => {
+  let error: string | undefined;
+  try {
+    const result = await processEmail(job.emailId, {
+      emailId: job.emailId,
+      source: job.source,
+      correlationId: job.correlationId,
+      timestamp: new Date(),
+      finalAttempt: job.attempts >= job.maxAttempts
+    });
+    if (!result.success) {
+      error = result.error || 'Processing failed';
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : 'Unknown error';
+  }
+
+  try {
+    await withJobs(jobs => {
+      const current = jobs[job.id];
+      if (!current) return;
+
+      const now = new Date();
+      current.updatedAt = now.toISOString();
+
+      if (!error) {
+        current.status = 'completed';
+        current.completedAt = current.updatedAt;
+        current.lastError = undefined;
+        log.info(`✅ Job ${job.id} completed for email ${job.emailId}`);
+      } else if (current.attempts >= current.maxAttempts) {
+        current.status = 'dead';
+        current.lastError = error;
+        log.error(`💀 Job ${job.id} moved to dead-letter after ${current.attempts} attempts: ${error}`);
+      } else {
+        const delay = getBackoffDelay(current.attempts);
+        current.status = 'pending';
+        current.lastError = error;
+        current.nextRunAt = new Date(now.getTime() + delay).toISOString();
+        log.warn(`🔁 Job ${job.id} failed (attempt ${current.attempts}/${current.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${error}`);
+      }
+
+      pruneCompletedJobs(jobs);
+    });
+  } catch (err) {
+    log.error(`❌ Failed to record outcome of job ${job.id}:`, err);
+  } finally {
+    runningJobs.delete(job.id);
+  }
+
+  // A slot just freed up
+  if (workerInterval) {
+    void pumpJobs();
+  }
+};
+
+// Exponential backoff with a little jitter so retries don't line up
+const getBackoffDelay = (attempts: number): number => {
+  const config = getJobQueueConfig();
+  const delay = Math.min(config.backoffBaseMs * Math.pow(2, attempts - 1), config.backoffMaxMs);
+  return Math.round(delay * (0.9 + Math.random() * 0.2));
+};
+
+// Keep the file from growing forever - only the newest completed jobs are kept
+const pruneCompletedJobs = (jobs: JobMap): void => {
+  const { keepCompleted } = getJobQueueConfig();
+  const completed = Object.values(jobs)
+    .filter(job => job.status === 'completed')
+    .sort((a, b) => (b.completedAt || '').localeCompare(a.completedAt || ''));
+
+  completed.slice(keepCompleted).forEach(job => {
+    delete jobs[job.id];
+  });
+};
@@ -0,0 +1,206 @@
+// Processing ledger - durable record of every email the agent has handled, keyed by Gmail message ID
+import { getDataPath, readJsonLines, appendJsonLine, writeJsonLines, withFileLock } from '../core/storage';
+import { createLogger } from '../core/logger';
+import { isDryRun } from './dry-run';
+
+const log = createLogger('ledger');
+
+export type LedgerStatus = 'processing' | 'task_created' | 'skipped' | 'review' | 'failed';
+
+export interface LedgerDecision {
+  type: 'rule' | 'ai' | 'local' | 'basic' | 'label';
+  ruleId?: string;
+  label?: string;
+  confidence?: number;
+  reasoning?: string;
+}
+
+export interface LedgerEntry {
+  emailId: string;
+  status: LedgerStatus;
+  source: 'webhook' | 'batch' | 'manual';
+  decision?: LedgerDecision;
+  taskId?: string;
+  error?: string;
+  attempts: number;
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+export interface LedgerClaim {
+  claimed: boolean;
+  reason?: string;
+  entry?: LedgerEntry;
+}
+
+// Global ledger state (functional approach)
+const entries = new Map<string, LedgerEntry>();
+const inFlight = new Set<string>();
+let isLedgerInitialized = false;
+let ledgerLoading: Promise<void> | null = null;
+
+// A "processing" entry older than this was left behind by a crashed run (LEDGER_STALE_MINUTES)
+const getStaleProcessingMs = (): number => {
+  return Math.max(1, parseInt(process.env.LEDGER_STALE_MINUTES || '15')) * 60 * 1000;
+};
+
+// Ledger file location (JSON lines, last record per email wins)
+export const getLedgerFilePath = (): string => getDataPath('ledger.jsonl');
+
+// Load ledger from disk
+export const initializeLedger = async (): Promise<void> => {
+  if (isLedgerInitialized) return;
+
+  // Concurrent callers share a single load
+  if (!ledgerLoading) {
+    ledgerLoading = loadLedger().finally(() => {
+      ledgerLoading = null;
+    });
+  }
+  await ledgerLoading;
+};
+
+const loadLedger = async (): Promise<void> => {
+  const filePath = getLedgerFilePath();
+  const records = await readJsonLines<LedgerEntry>(filePath);
+  setEntries(records);
+
+  // Compact the file when it has accumulated many superseded records (a dry run leaves it alone)
+  if (!isDryRun() && records.length > entries.size * 2 && records.length > 100) {
+    // Re-read under the lock so a line another process appended meanwhile is kept
+    await withFileLock(filePath, async () => {
+      setEntries(await readJsonLines<LedgerEntry>(filePath));
+      await writeJsonLines(filePath, Array.from(entries.values()));
+    });
+    log.info(`🗜️ Compacted processing ledger (${records.length} → ${entries.size} records)`);
+  }
+
+  isLedgerInitialized = true;
+  log.info(`📒 Processing ledger loaded: ${entries.size} emails`);
+
+  const stale = Array.from(entries.values()).filter(isStaleProcessing);
+  if (stale.length > 0) {
+    log.warn(`⚠️ ${stale.length} email(s) were left in processing by an interrupted run and will be retried`);
+  }
+};
+
+// Claim an email for processing - returns claimed: false if it was already handled or is in progress
+export const claimEmail = async (emailId: string, source: LedgerEntry['source']): Promise<LedgerClaim> => {
+  if (!isLedgerInitialized) {
+    await initializeLedger();
+  }
+
+  // Checked and marked synchronously so concurrent callers in this process can't both claim
+  if (inFlight.has(emailId)) {
+    return { claimed: false, reason: 'Already in progress', entry: entries.get(emailId) };
+  }
+
+  inFlight.add(emailId);
+  try {
+    const claim = await withLedgerLock(async () => {
+      // Other processes (CLI runs, the worker) append to the ledger too - decide on the latest records
+      if (!isDryRun()) {
+        setEntries(await readJsonLines<LedgerEntry>(getLedgerFilePath()));
+      }
+      return claimLatest(emailId, source);
+    });
+    if (!claim.claimed) {
+      inFlight.delete(emailId);
+    }
+    return claim;
+  } catch (error) {
+    inFlight.delete(emailId);
+    throw error;
+  }
+};
+
+const claimLatest = async (emailId: string, source: LedgerEntry['source']): Promise<LedgerClaim> => {
+  const existing = entries.get(emailId);
+  if (existing && (existing.status === 'task_created' || existing.status === 'skipped')) {
+    return { claimed: false, reason: 'Already processed', entry: existing };
+  }
+  if (existing?.status === 'review') {
+    return { claimed: false, reason: 'Awaiting review', entry: existing };
+  }
+  // A fresh claim may belong to another process; a stale one was interrupted and is taken over
+  if (existing?.status === 'processing') {
+    if (!isStaleProcessing(existing)) {
+      return { claimed: false, reason: 'Already in progress', entry: existing };
+    }
+    log.warn(`⚠️ Reclaiming ${emailId}: processing started ${existing.updatedAt} never completed`);
+  }
+
+  const now = new Date().toISOString();
+  const entry: LedgerEntry = {
+    emailId,
+    status: 'processing',
+    source,
+    attempts: (existing?.attempts || 0) + 1,
+    firstSeenAt: existing?.firstSeenAt || now,
+    updatedAt: now
+  };
+  await writeEntry(entry);
+
+  return { claimed: true, entry };
+};
+
+// Record the outcome of processing and release the claim
+export const completeEmail = async (
+  emailId: string,
+  outcome: { status: Exclude<LedgerStatus, 'processing'>; decision?: LedgerDecision; taskId?: string; error?: string }
+): Promise<void> => {
+  try {
+    const existing = entries.get(emailId);
+    const now = new Date().toISOString();
+
+    await withLedgerLock(() => writeEntry({
+      emailId,
+      source: existing?.source || 'manual',
+      attempts: existing?.attempts || 1,
+      firstSeenAt: existing?.firstSeenAt || now,
+      ...outcome,
+      updatedAt: now
+    }));
+  } finally {
+    inFlight.delete(emailId);
+  }
+};
+
+// Look up a single email
+export const getLedgerEntry = (emailId: string): LedgerEntry | undefined => {
+  return entries.get(emailId);
+};
+
+// List ledger entries, most recently updated first
+export const listLedgerEntries = (status?: LedgerStatus): LedgerEntry[] => {
+  return Array.from(entries.values())
+    .filter(entry => !status || entry.status === status)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Every ledger write holds the file lock, so compaction in another process never drops an appended line
+const withLedgerLock = <T>(fn: () => Promise<T>): Promise<T> => {
+  return isDryRun() ? fn() : withFileLock(getLedgerFilePath(), fn);
+};
+
+// Last record per email wins
+const setEntries = (records: LedgerEntry[]): void => {
+  entries.clear();
+  records.forEach(record => {
+    if (record && typeof record.emailId === 'string') {
+      entries.set(record.emailId, record);
+    }
+  });
+};
+
+const isStaleProcessing = (entry: LedgerEntry): boolean => {
+  return entry.status === 'processing' && Date.now() - new Date(entry.updatedAt).getTime() > getStaleProcessingMs();
+};
+
+// Persist one entry: the in-memory map is updated only after the line is on disk (dry runs stay in memory)
+const writeEntry = async (entry: LedgerEntry): Promise<void> => {
+  if (!isDryRun()) {
+    await appendJsonLine(getLedgerFilePath(), entry);
+  }
+  entries.set(entry.emailId, entry);
+};
@@ -0,0 +1,171 @@
+// LLM providers - OpenAI, OpenAI-compatible servers (Ollama, llama.cpp, vLLM) and Azure OpenAI behind one interface
+import OpenAI, { AzureOpenAI } from 'openai';
+import { createHistogram } from '../core/metrics';
+import { createLogger } from '../core/logger';
+
+const log = createLogger('llm-provider');
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'azure';
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  model: string;
+  apiKey?: string;
+  baseURL?: string;
+  azureEndpoint?: string;
+  azureApiVersion?: string;
+  jsonMode: boolean;
+  timeoutMs: number;
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  type: LLMProviderType;
+  model: string;
+  complete: (messages: LLMMessage[], options?: LLMCompletionOptions) => Promise<string>;
+  checkConnection: () => Promise<void>;
+}
+
+const completionDuration = createHistogram('todo_agent_llm_request_duration_seconds', 'LLM completion latency in seconds', ['provider', 'outcome']);
+
+// Default model per provider (Azure uses the deployment name instead)
+const DEFAULT_MODELS: { [type in LLMProviderType]: string } = {
+  'openai': 'gpt-4o-mini',
+  'openai-compatible': 'llama3.1',
+  'azure': ''
+};
+
+// Read provider configuration from the environment - returns null when no provider is configured
+export const getLLMConfigFromEnv = (): LLMProviderConfig | null => {
+  const type = (process.env.LLM_PROVIDER || 'openai') as LLMProviderType;
+  const jsonMode = process.env.LLM_JSON_MODE !== 'false';
+  const timeoutMs = parseInt(process.env.LLM_TIMEOUT_MS || '30000');
+
+  switch (type) {
+    case 'openai': {
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) return null;
+      return {
+        type,
+        apiKey,
+        baseURL: process.env.LLM_BASE_URL || undefined,
+        model: process.env.LLM_MODEL || DEFAULT_MODELS.openai,
+        jsonMode,
+        timeoutMs
+      };
+    }
+
+    case 'openai-compatible': {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) return null;
+      return {
+        type,
+        baseURL,
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.LLM_API_KEY || 'not-needed',
+        model: process.env.LLM_MODEL || DEFAULT_MODELS['openai-compatible'],
+        jsonMode,
+        timeoutMs
+      };
+    }
+
+    case 'azure': {
+      const azureEndpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY || process.env.LLM_API_KEY;
+      const deployment = process.env.AZURE_OPENAI_DEPLOYMENT || process.env.LLM_MODEL;
+      if (!azureEndpoint || !apiKey || !deployment) return null;
+      return {
+        type,
+        apiKey,
+        azureEndpoint,
+        azureApiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+        model: deployment,
+        jsonMode,
+        timeoutMs
+      };
+    }
+
+    default:
+      log.warn(`⚠️ Unknown LLM_PROVIDER "${type}" - expected openai, openai-compatible or azure`);
+      return null;
+  }
+};
+
+// Check whether any LLM provider is configured
+export const isLLMConfigured = (): boolean => {
+  return getLLMConfigFromEnv() !== null;
+};
+
+// Create a provider from configuration
+export const createLLMProvider = (config: LLMProviderConfig): LLMProvider => {
+  const client = config.type === 'azure'
+    ? new AzureOpenAI({
+        apiKey: config.apiKey,
+        endpoint: config.azureEndpoint,
+        deployment: config.model,
+        apiVersion: config.azureApiVersion,
+        timeout: config.timeoutMs,
+        maxRetries: 1
+      })
+    : new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseURL,
+        timeout: config.timeoutMs,
+        maxRetries: 1
+      });
+
+  const complete = async (messages: LLMMessage[], options: LLMCompletionOptions = {}): Promise<string> => {
+    const stopTimer = completionDuration.startTimer({ provider: config.type });
+    try {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages,
+        temperature: options.temperature ?? 0.3,
+        max_tokens: options.maxTokens ?? 500,
+        ...(options.json && config.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      });
+      stopTimer({ outcome: 'success' });
+
+      return response.choices[0]?.message?.content || '';
+    } catch (error) {
+      stopTimer({ outcome: 'error' });
+      throw error;
+    }
+  };
+
+  const checkConnection = async (): Promise<void> => {
+    if (config.type === 'azure') {
+      // Azure deployments can't list models - send a minimal completion instead
+      await complete([{ role: 'user', content: 'ping' }], { maxTokens: 1 });
+      return;
+    }
+    await client.models.list();
+  };
+
+  return {
+    type: config.type,
+    model: config.model,
+    complete,
+    checkConnection
+  };
+};
+
+// Strip markdown code fences some local models wrap around JSON output
+export const extractJsonText = (content: string): string => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) return fenced[1].trim();
+
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  return start !== -1 && end > start ? content.substring(start, end + 1) : content.trim();
+};
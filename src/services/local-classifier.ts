@@ -0,0 +1,191 @@
+// Local classifier - naive Bayes over sender, subject and body tokens, trained from AI decisions and user corrections
+import { EmailData } from '../core/types';
+import { AIClassificationResult, LearningData, getClassificationHistory, getHistoryVersion } from './ai-service';
+
+export type LocalClassifierMode = 'off' | 'fallback' | 'first-pass' | 'standalone';
+
+export interface LocalClassifierConfig {
+  mode: LocalClassifierMode;
+  confidenceThreshold: number;
+  minExamples: number;
+}
+
+export interface LocalClassifierStats {
+  trained: boolean;
+  examples: number;
+  corrections: number;
+  vocabularySize: number;
+  labelCounts: { [label: string]: number };
+}
+
+interface NaiveBayesModel {
+  labelDocCounts: { [label: string]: number };
+  tokenCounts: { [label: string]: { [token: string]: number } };
+  totalTokens: { [label: string]: number };
+  vocabulary: Set<string>;
+  examples: number;
+  corrections: number;
+}
+
+// Corrections are stronger evidence than the AI's own decisions
+const CORRECTION_WEIGHT = 3;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'you', 'your', 'with', 'this', 'that', 'are', 'was', 'from',
+  'have', 'has', 'will', 'can', 'our', 'not', 'but', 'all', 'any', 'its', 'into', 'out',
+  'about', 'just', 'been', 'also', 'they', 'them', 'their', 'there', 'what', 'when', 'who'
+]);
+
+// Global classifier state (functional approach)
+let model: NaiveBayesModel | null = null;
+let trainedOnVersion = -1;
+
+// Classifier configuration (LOCAL_CLASSIFIER_MODE, LOCAL_CLASSIFIER_THRESHOLD, LOCAL_CLASSIFIER_MIN_EXAMPLES)
+export const getLocalClassifierConfig = (): LocalClassifierConfig => {
+  const mode = process.env.LOCAL_CLASSIFIER_MODE || 'fallback';
+  return {
+    mode: ['off', 'fallback', 'first-pass', 'standalone'].includes(mode) ? mode as LocalClassifierMode : 'fallback',
+    confidenceThreshold: parseFloat(process.env.LOCAL_CLASSIFIER_THRESHOLD || '0.85'),
+    minExamples: parseInt(process.env.LOCAL_CLASSIFIER_MIN_EXAMPLES || '30')
+  };
+};
+
+// Train (or retrain) the model from the classification history
+export const trainLocalClassifier = (): LocalClassifierStats => {
+  const history = getClassificationHistory();
+  const trainedModel: NaiveBayesModel = {
+    labelDocCounts: {},
+    tokenCounts: {},
+    totalTokens: {},
+    vocabulary: new Set(),
+    examples: 0,
+    corrections: 0
+  };
+
+  history.forEach(record => {
+    const label = record.correctedLabel || record.classification;
+    const weight = record.correctedLabel ? CORRECTION_WEIGHT : 1;
+    const tokens = extractRecordFeatures(record);
+
+    trainedModel.labelDocCounts[label] = (trainedModel.labelDocCounts[label] || 0) + weight;
+    trainedModel.tokenCounts[label] = trainedModel.tokenCounts[label] || {};
+    trainedModel.totalTokens[label] = trainedModel.totalTokens[label] || 0;
+
+    tokens.forEach(token => {
+      trainedModel.tokenCounts[label][token] = (trainedModel.tokenCounts[label][token] || 0) + weight;
+      trainedModel.totalTokens[label] += weight;
+      trainedModel.vocabulary.add(token);
+    });
+
+    trainedModel.examples++;
+    if (record.correctedLabel) trainedModel.corrections++;
+  });
+
+  model = trainedModel;
+  trainedOnVersion = getHistoryVersion();
+  return getLocalClassifierStats();
+};
+
+// Check whether the model has enough examples to be used
+export const isLocalClassifierReady = (): boolean => {
+  ensureTrained();
+  return !!model
+    && model.examples >= getLocalClassifierConfig().minExamples
+    && Object.keys(model.labelDocCounts).length >= 2;
+};
+
+// Classify an email locally - returns null when the model is not ready
+export const classifyEmailLocally = (email: EmailData): AIClassificationResult | null => {
+  if (!isLocalClassifierReady() || !model) {
+    return null;
+  }
+
+  const tokens = extractEmailFeatures(email);
+  const labels = Object.keys(model.labelDocCounts);
+  const totalDocs = labels.reduce((sum, label) => sum + model!.labelDocCounts[label], 0);
+  const vocabularySize = model.vocabulary.size;
+
+  // Log-probabilities with Laplace smoothing
+  const scores = labels.map(label => {
+    let score = Math.log(model!.labelDocCounts[label] / totalDocs);
+    const counts = model!.tokenCounts[label];
+    const denominator = model!.totalTokens[label] + vocabularySize;
+    tokens.forEach(token => {
+      if (!model!.vocabulary.has(token)) return;
+      score += Math.log(((counts[token] || 0) + 1) / denominator);
+    });
+    return { label, score };
+  });
+
+  // Softmax to turn scores into a confidence
+  const maxScore = Math.max(...scores.map(s => s.score));
+  const expSum = scores.reduce((sum, s) => sum + Math.exp(s.score - maxScore), 0);
+  const best = scores.sort((a, b) => b.score - a.score)[0];
+  const confidence = 1 / expSum;
+
+  const matchedTokens = tokens.filter(token => (model!.tokenCounts[best.label][token] || 0) > 0);
+
+  return {
+    isActionable: best.label !== 'TodoAgent_Skip',
+    suggestedLabel: best.label,
+    confidence: Math.round(confidence * 1000) / 1000,
+    keywords: matchedTokens.slice(0, 10).map(token => token.split(':').slice(1).join(':')),
+    reasoning: `Local classifier (naive Bayes, ${model.examples} examples) predicted ${best.label}`
+  };
+};
+
+// Get model statistics
+export const getLocalClassifierStats = (): LocalClassifierStats => {
+  ensureTrained();
+  const labelCounts: { [label: string]: number } = {};
+  getClassificationHistory().forEach(record => {
+    const label = record.correctedLabel || record.classification;
+    labelCounts[label] = (labelCounts[label] || 0) + 1;
+  });
+
+  return {
+    trained: !!model && model.examples > 0,
+    examples: model?.examples || 0,
+    corrections: model?.corrections || 0,
+    vocabularySize: model?.vocabulary.size || 0,
+    labelCounts
+  };
+};
+
+// Retrain lazily whenever the classification history has changed
+const ensureTrained = (): void => {
+  if (!model || trainedOnVersion !== getHistoryVersion()) {
+    trainLocalClassifier();
+  }
+};
+
+// Features for a stored history record - only the email fields, so training sees exactly what inference sees
+const extractRecordFeatures = (record: LearningData): string[] => {
+  return buildFeatures(record.from, record.subject, record.snippet || '');
+};
+
+// Features for a live email (the snippet is what the history stores, never the AI's keywords)
+const extractEmailFeatures = (email: EmailData): string[] => {
+  return buildFeatures(email.from, email.subject, email.snippet || '');
+};
+
+const buildFeatures = (from: string, subject: string, snippet: string): string[] => {
+  const address = (from.match(/<([^>]+)>/)?.[1] || from).trim().toLowerCase();
+  const domain = address.includes('@') ? address.split('@')[1] : '';
+
+  const features = [`from:${address}`];
+  if (domain) features.push(`domain:${domain}`);
+  tokenize(subject).forEach(token => features.push(`subj:${token}`));
+  tokenize(snippet).forEach(token => features.push(`body:${token}`));
+
+  return Array.from(new Set(features));
+};
+
+const tokenize = (text: string): string[] => {
+  return text
+    .toLowerCase()
+    .replace(/^(re|fwd?):\s*/g, '')
+    .split(/[^a-z0-9@.'-]+/)
+    .map(token => token.replace(/^[.'-]+|[.'-]+$/g, ''))
+    .filter(token => token.length > 2 && token.length < 30 && !STOP_WORDS.has(token) && !/^\d+$/.test(token));
+};
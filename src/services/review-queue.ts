@@ -0,0 +1,220 @@
+// Review Queue - low-confidence classifications wait here for a human approve/reject decision
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from '../core/storage';
+import { EmailData, TaskData, ProcessingResult } from '../core/types';
+import { createLogger } from '../core/logger';
+import { AIClassificationResult, recordCorrection } from './ai-service';
+import { getEmailById, addLabelToEmail, removeLabelFromEmail, markEmailProcessed, ensureLabel } from './gmail';
+import { createOrUpdateThreadTask } from './task-mappings';
+import { initializeLedger, completeEmail } from './ledger';
+import { createAuditRecord, withAuditRecord, saveAuditRecord } from './audit';
+import { isDryRun, recordDryRunAction } from './dry-run';
+
+const log = createLogger('review-queue');
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReviewItem {
+  id: string; // Gmail message ID
+  threadId: string;
+  from: string;
+  subject: string;
+  snippet: string;
+  receivedAt: string;
+  classification: {
+    source: 'ai' | 'local';
+    label: string;
+    isActionable: boolean;
+    confidence: number;
+    reasoning: string;
+  };
+  proposedTask: TaskData;
+  status: ReviewStatus;
+  createdAt: string;
+  resolvedAt?: string;
+  taskId?: string;
+}
+
+export const REVIEW_LABEL = 'TodoAgent_Review';
+
+// Confidence below which classifications go to review (REVIEW_CONFIDENCE_THRESHOLD, 0 disables)
+export const getReviewThreshold = (): number => {
+  return parseFloat(process.env.REVIEW_CONFIDENCE_THRESHOLD || '0.6');
+};
+
+// The queue file is re-read on every operation so CLI commands and the running agent stay in sync
+const getQueueFilePath = (): string => getDataPath('review-queue.json');
+
+const loadQueue = async (): Promise<{ [id: string]: ReviewItem }> => {
+  return (await readJsonFile<{ [id: string]: ReviewItem }>(getQueueFilePath())) || {};
+};
+
+// Read-modify-write the queue file under a lock - the CLI and the running agent both write it
+const updateQueue = (update: (queue: { [id: string]: ReviewItem }) => void): Promise<void> => {
+  return withFileLock(getQueueFilePath(), async () => {
+    const queue = await loadQueue();
+    update(queue);
+    await writeJsonFile(getQueueFilePath(), queue);
+  });
+};
+
+// Put an email into the review queue and label it in Gmail
+export const queueForReview = async (
+  email: EmailData,
+  classification: AIClassificationResult,
+  source: 'ai' | 'local',
+  proposedTask: TaskData
+): Promise<void> => {
+  if (isDryRun()) {
+    recordDryRunAction({
+      type: 'queue_review',
+      emailId: email.id,
+      taskData: proposedTask,
+      detail: `${classification.suggestedLabel}, confidence ${classification.confidence}`
+    });
+    return;
+  }
+
+  await updateQueue(queue => {
+    queue[email.id] = {
+      id: email.id,
+      threadId: email.threadId,
+      from: email.from,
+      subject: email.subject,
+      snippet: email.snippet,
+      receivedAt: new Date(email.timestamp).toISOString(),
+      classification: {
+        source,
+        label: classification.suggestedLabel,
+        isActionable: classification.isActionable,
+        confidence: classification.confidence,
+        reasoning: classification.reasoning
+      },
+      proposedTask,
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+  });
+
+  await ensureLabel(REVIEW_LABEL);
+  await addLabelToEmail(email.id, REVIEW_LABEL);
+  log.info(`📝 Email ${email.id} queued for review (${classification.suggestedLabel}, confidence: ${classification.confidence})`);
+};
+
+// List review items (pending by default), oldest first
+export const listReviewItems = async (status: ReviewStatus | 'all' = 'pending'): Promise<ReviewItem[]> => {
+  const queue = await loadQueue();
+  return Object.values(queue)
+    .filter(item => status === 'all' || item.status === status)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+// Get a single review item
+export const getReviewItem = async (id: string): Promise<ReviewItem | undefined> => {
+  const queue = await loadQueue();
+  return queue[id];
+};
+
+// Approve a review item: create the (optionally edited) task and mark the email processed
+export const approveReviewItem = async (id: string, edits: Partial<TaskData> = {}): Promise<ProcessingResult> => {
+  const item = await getPendingItem(id);
+  return withReviewAudit(item, 'approved', () => createApprovedTask(item, edits));
+};
+
+const createApprovedTask = async (item: ReviewItem, edits: Partial<TaskData>): Promise<ProcessingResult> => {
+  const id = item.id;
+  const email = await getEmailById(id);
+  if (!email) {
+    throw new Error(`Email ${id} could not be fetched from Gmail`);
+  }
+
+  const taskData: TaskData = { ...item.proposedTask, ...stripUndefined(edits) };
+  const taskResult = await createOrUpdateThreadTask(email, taskData);
+  if (!taskResult.success) {
+    return { success: false, emailId: id, error: taskResult.error, timestamp: new Date().toISOString() };
+  }
+
+  const label = item.classification.isActionable ? item.classification.label : 'TodoAgent_Task';
+  await removeLabelFromEmail(id, REVIEW_LABEL);
+  await addLabelToEmail(id, label);
+  await markEmailProcessed(id, 'success');
+  await completeEmail(id, { status: 'task_created', taskId: taskResult.taskId, decision: { type: 'label', label } });
+
+  // Approving something the classifier called non-actionable is a correction worth learning from
+  if (!item.classification.isActionable) {
+    await recordCorrection(email, label);
+  }
+
+  await resolveItem(id, 'approved', { proposedTask: taskData, taskId: taskResult.taskId });
+  log.info(`✅ Review approved for ${id}: task ${taskResult.taskId}`);
+  return { success: true, emailId: id, taskId: taskResult.taskId, timestamp: new Date().toISOString() };
+};
+
+// Reject a review item: skip the email without creating a task
+export const rejectReviewItem = async (id: string): Promise<ProcessingResult> => {
+  const item = await getPendingItem(id);
+  return withReviewAudit(item, 'rejected', () => skipRejectedEmail(item));
+};
+
+const skipRejectedEmail = async (item: ReviewItem): Promise<ProcessingResult> => {
+  const id = item.id;
+  await removeLabelFromEmail(id, REVIEW_LABEL);
+  await markEmailProcessed(id, 'skipped');
+  await completeEmail(id, { status: 'skipped', decision: { type: 'label', label: 'TodoAgent_Skip' }, error: 'Rejected in review' });
+
+  // Rejecting something the classifier called actionable is a correction worth learning from
+  if (item.classification.isActionable) {
+    const email = await getEmailById(id);
+    if (email) {
+      await recordCorrection(email, 'TodoAgent_Skip');
+    }
+  }
+
+  await resolveItem(id, 'rejected');
+  log.info(`⏭️ Review rejected for ${id}`);
+  return { success: true, emailId: id, error: 'Rejected in review', timestamp: new Date().toISOString() };
+};
+
+// Review decisions get an audit record of their own, following the one written when the email was queued
+const withReviewAudit = async (
+  item: ReviewItem,
+  resolution: 'approved' | 'rejected',
+  fn: () => Promise<ProcessingResult>
+): Promise<ProcessingResult> => {
+  const audit = { ...createAuditRecord(item.id, 'review'), from: item.from, subject: item.subject };
+  const { source, label, confidence } = item.classification;
+  audit.steps.push(`Review ${resolution} (${source} classification ${label}, confidence: ${confidence})`);
+
+  const result = await withAuditRecord(audit, fn);
+  await saveAuditRecord({
+    ...audit,
+    decision: { type: 'label', label: resolution === 'approved' ? (item.classification.isActionable ? label : 'TodoAgent_Task') : 'TodoAgent_Skip' },
+    taskId: result.taskId,
+    outcome: !result.success ? 'failed' : result.taskId ? 'task_created' : 'skipped',
+    error: result.error
+  });
+  return result;
+};
+
+// Review commands run from the CLI too, where the ledger has not been loaded yet
+const getPendingItem = async (id: string): Promise<ReviewItem> => {
+  await initializeLedger();
+  const item = await getReviewItem(id);
+  if (!item) {
+    throw new Error(`No review item found for ${id}`);
+  }
+  if (item.status !== 'pending') {
+    throw new Error(`Review item ${id} was already ${item.status}`);
+  }
+  return item;
+};
+
+const resolveItem = async (id: string, status: ReviewStatus, updates: Partial<ReviewItem> = {}): Promise<void> => {
+  await updateQueue(queue => {
+    if (!queue[id]) return;
+    queue[id] = { ...queue[id], ...updates, status, resolvedAt: new Date().toISOString() };
+  });
+};
+
+const stripUndefined = <T extends object>(value: T): Partial<T> => {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+};
@@ -0,0 +1,270 @@
+// Rule criteria - the matching language behind FilterRule.criteria (patterns, per-field conditions, all/any/not groups)
+import { EmailData } from '../core/types';
+
+// A pattern is "text" (case-insensitive substring), "word:text" (whole word), "exact:text" (whole value) or "/regex/flags"
+export type Pattern = string;
+
+// Object form of a field: any/all/not pattern lists plus the field's share of the rule score
+export interface FieldCondition {
+  any?: Pattern[]; // At least one must match
+  all?: Pattern[]; // Every one must match
+  not?: Pattern[]; // None may match
+  weight?: number; // Default 1
+}
+
+// A plain pattern list means "any of these"
+export type FieldCriterion = Pattern[] | FieldCondition;
+
+export interface RuleCriteria {
+  from?: FieldCriterion;
+  fromDomain?: FieldCriterion;
+  to?: FieldCriterion; // Any recipient - To, Cc or Bcc (like Gmail's to: search)
+  cc?: FieldCriterion;
+  replyTo?: FieldCriterion;
+  subject?: FieldCriterion;
+  bodyKeywords?: FieldCriterion;
+  attachmentName?: FieldCriterion; // Attachment filenames
+  attachmentType?: FieldCriterion; // Attachment MIME types, e.g. "application/pdf"
+  labels?: FieldCriterion; // Gmail label names and IDs, e.g. "exact:STARRED", "exact:Receipts"
+  category?: FieldCriterion; // Gmail inbox category: primary, social, promotions, updates, forums
+  hasAttachment?: boolean;
+  sentOnlyToMe?: boolean; // A single recipient (one of MY_EMAIL_ADDRESSES when set) and not a mailing list
+  mailingList?: boolean; // Delivered through a mailing list or bulk sender
+  excludeKeywords?: Pattern[]; // Any hit vetoes the rule
+  all?: RuleCriteria[]; // Every group must match
+  any?: RuleCriteria[]; // At least one group must match
+  not?: RuleCriteria[]; // No group may match
+}
+
+export interface CriteriaResult {
+  matched: boolean;
+  confidence: number; // Weighted share of the scored fields that matched
+  matchedCriteria: string[];
+  excluded: boolean;
+}
+
+// Share of the weighted fields a rule needs when it sets no matchThreshold
+export const DEFAULT_MATCH_THRESHOLD = 0.5;
+
+// Fields scored against the email - each yields the values its patterns are tested against
+export const SCORED_FIELDS: { [field: string]: (email: EmailData) => string[] } = {
+  from: email => [email.from],
+  fromDomain: email => [extractDomain(email.from)],
+  to: email => headerValues(email.to, email.cc, email.bcc),
+  cc: email => headerValues(email.cc),
+  replyTo: email => headerValues(email.replyTo),
+  subject: email => [email.subject],
+  bodyKeywords: email => [email.body, email.snippet],
+  attachmentName: email => (email.attachments || []).map(attachment => attachment.filename),
+  attachmentType: email => (email.attachments || []).map(attachment => attachment.mimeType),
+  labels: email => [...(email.labelNames || []), ...email.labelIds],
+  category: email => getCategories(email)
+};
+
+// Yes/no properties of the email - a flag criterion matches when the property equals the rule's value
+export const FLAG_FIELDS: { [field: string]: (email: EmailData) => boolean } = {
+  hasAttachment: email => (email.attachments?.length ?? 0) > 0,
+  sentOnlyToMe: email => isSentOnlyToMe(email),
+  mailingList: email => !!email.isMailingList
+};
+
+export const GROUP_KEYS = ['all', 'any', 'not'] as const;
+
+// Compiled patterns (functional approach) - rules are evaluated for every email, so each pattern is parsed once
+const matcherCache = new Map<string, (value: string) => boolean>();
+
+// Evaluate criteria against an email - nested groups require every one of their fields to match
+export const evaluateCriteria = (
+  email: EmailData,
+  criteria: RuleCriteria,
+  threshold: number = DEFAULT_MATCH_THRESHOLD
+): CriteriaResult => {
+  // Exclude keywords veto the rule outright
+  if (criteria.excludeKeywords && criteria.excludeKeywords.length > 0) {
+    const texts = [email.subject, email.body, email.snippet];
+    if (criteria.excludeKeywords.some(pattern => texts.some(text => matchesPattern(pattern, text)))) {
+      return { matched: false, confidence: 0, matchedCriteria: [], excluded: true };
+    }
+  }
+
+  const matchedCriteria: string[] = [];
+  let totalWeight = 0;
+  let matchedWeight = 0;
+
+  Object.entries(SCORED_FIELDS).forEach(([field, getValues]) => {
+    const criterion = criteria[field as keyof RuleCriteria] as FieldCriterion | undefined;
+    if (!criterion || !hasPatterns(criterion)) return;
+
+    const weight = Array.isArray(criterion) ? 1 : criterion.weight ?? 1;
+    totalWeight += weight;
+    if (matchesField(criterion, getValues(email))) {
+      matchedWeight += weight;
+      matchedCriteria.push(field);
+    }
+  });
+
+  Object.entries(FLAG_FIELDS).forEach(([field, getFlag]) => {
+    const expected = criteria[field as keyof RuleCriteria] as boolean | undefined;
+    if (expected === undefined) return;
+
+    totalWeight++;
+    if (getFlag(email) === expected) {
+      matchedWeight++;
+      matchedCriteria.push(field);
+    }
+  });
+
+  // Groups are hard conditions on top of the field score
+  const groupMatches = (group: RuleCriteria) => evaluateCriteria(email, group, 1).matched;
+  const hasGroups = GROUP_KEYS.some(key => (criteria[key]?.length ?? 0) > 0);
+  let groupsPass = true;
+  if (criteria.all && criteria.all.length > 0) {
+    groupsPass = groupsPass && criteria.all.every(groupMatches);
+    if (groupsPass) matchedCriteria.push('all');
+  }
+  if (criteria.any && criteria.any.length > 0) {
+    groupsPass = groupsPass && criteria.any.some(groupMatches);
+    if (groupsPass) matchedCriteria.push('any');
+  }
+  if (criteria.not && criteria.not.length > 0) {
+    groupsPass = groupsPass && !criteria.not.some(groupMatches);
+    if (groupsPass) matchedCriteria.push('not');
+  }
+
+  if (totalWeight === 0) {
+    const matched = hasGroups && groupsPass;
+    return { matched, confidence: matched ? 1 : 0, matchedCriteria: matched ? matchedCriteria : [], excluded: false };
+  }
+
+  const confidence = matchedWeight / totalWeight;
+  return {
+    matched: groupsPass && matchedWeight > 0 && confidence >= threshold,
+    confidence: groupsPass ? confidence : 0,
+    matchedCriteria,
+    excluded: false
+  };
+};
+
+// Test one pattern against one value
+export const matchesPattern = (pattern: Pattern, value: string): boolean => {
+  let matcher = matcherCache.get(pattern);
+  if (!matcher) {
+    matcher = compilePattern(pattern);
+    matcherCache.set(pattern, matcher);
+  }
+  return matcher(value || '');
+};
+
+// Check a pattern's syntax - returns a problem description, or null when the pattern is usable
+export const validatePattern = (pattern: unknown): string | null => {
+  if (typeof pattern !== 'string' || pattern.trim().length === 0) {
+    return 'patterns must be non-empty strings';
+  }
+
+  const regex = parseRegexPattern(pattern);
+  if (regex) {
+    try {
+      new RegExp(regex.source, regex.flags);
+    } catch (error) {
+      return `invalid regex ${pattern}: ${error instanceof Error ? error.message : error}`;
+    }
+    return null;
+  }
+
+  if ((pattern.startsWith('word:') || pattern.startsWith('exact:')) && pattern.split(':').slice(1).join(':').trim().length === 0) {
+    return `pattern "${pattern}" has no text to match`;
+  }
+  return null;
+};
+
+// A field counts towards the score only if it has something to match
+const hasPatterns = (criterion: FieldCriterion): boolean => {
+  if (Array.isArray(criterion)) return criterion.length > 0;
+  return [criterion.any, criterion.all, criterion.not].some(list => (list?.length ?? 0) > 0);
+};
+
+const matchesField = (criterion: FieldCriterion, values: string[]): boolean => {
+  const condition: FieldCondition = Array.isArray(criterion) ? { any: criterion } : criterion;
+  const hit = (pattern: Pattern) => values.some(value => matchesPattern(pattern, value));
+
+  if (condition.any && condition.any.length > 0 && !condition.any.some(hit)) return false;
+  if (condition.all && !condition.all.every(hit)) return false;
+  if (condition.not && condition.not.some(hit)) return false;
+  return true;
+};
+
+const compilePattern = (pattern: Pattern): ((value: string) => boolean) => {
+  const regex = parseRegexPattern(pattern);
+  if (regex) {
+    try {
+      const compiled = new RegExp(regex.source, regex.flags.replace('g', ''));
+      return value => compiled.test(value);
+    } catch {
+      return () => false; // Rejected by validation - never matches if one slips through
+    }
+  }
+
+  if (pattern.startsWith('word:')) {
+    const word = new RegExp(`(?<!\\w)${escapeRegex(pattern.substring(5).trim())}(?!\\w)`, 'i');
+    return value => word.test(value);
+  }
+
+  if (pattern.startsWith('exact:')) {
+    const exact = pattern.substring(6).trim().toLowerCase();
+    return value => value.trim().toLowerCase() === exact;
+  }
+
+  const text = pattern.toLowerCase();
+  return value => value.toLowerCase().includes(text);
+};
+
+const parseRegexPattern = (pattern: string): { source: string; flags: string } | null => {
+  const match = pattern.match(/^\/(.+)\/([dgimsuy]*)$/s);
+  return match ? { source: match[1], flags: match[2] } : null;
+};
+
+const escapeRegex = (text: string): string => {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
+// Addresses the user receives mail at (MY_EMAIL_ADDRESSES, comma-separated) - empty means any single recipient counts
+const getMyAddresses = (): string[] => {
+  return (process.env.MY_EMAIL_ADDRESSES || '')
+    .split(',')
+    .map(address => address.trim().toLowerCase())
+    .filter(address => address.length > 0);
+};
+
+// Bare addresses in an address-list header, lower-cased
+const parseAddresses = (header: string = ''): string[] => {
+  return (header.match(/[^\s<>,;:"]+@[^\s<>,;:"]+/g) || []).map(address => address.toLowerCase());
+};
+
+const isSentOnlyToMe = (email: EmailData): boolean => {
+  if (email.isMailingList) return false;
+  const recipients = parseAddresses([email.to, email.cc, email.bcc].filter(Boolean).join(', '));
+  const myAddresses = getMyAddresses();
+  return recipients.length === 1 && (myAddresses.length === 0 || myAddresses.includes(recipients[0]));
+};
+
+// Inbox categories from the CATEGORY_* system labels (Gmail calls the Primary tab CATEGORY_PERSONAL)
+const getCategories = (email: EmailData): string[] => {
+  return email.labelIds
+    .filter(labelId => labelId.startsWith('CATEGORY_'))
+    .flatMap(labelId => {
+      const category = labelId.substring('CATEGORY_'.length).toLowerCase();
+      return category === 'personal' ? ['personal', 'primary'] : [category];
+    });
+};
+
+// Whole headers and each bare address, so both "word:team" and "exact:me@example.com" work
+const headerValues = (...headers: (string | undefined)[]): string[] => {
+  const present = headers.filter((header): header is string => !!header);
+  return [...present, ...present.flatMap(header => parseAddresses(header))];
+};
+
+// Extract domain from an address like "Name <user@example.com>"
+const extractDomain = (email: string): string => {
+  const match = email.match(/@([^>]+)/);
+  return match ? match[1].toLowerCase() : '';
+};
@@ -1,6 +1,13 @@
 // Phase 3: Rule Engine - functional approach following gmail-todo-agent patterns
 import { EmailData } from '../core/types';
 import { addLabelToEmail } from './gmail';
+import { createCounter } from '../core/metrics';
+import { createLogger } from '../core/logger';
+import { isDryRun } from './dry-run';
+import { RuleCriteria, evaluateCriteria, DEFAULT_MATCH_THRESHOLD } from './rule-criteria';
+import { loadRulesFile, saveRulesFile, getRulesFilePath, loadRuleStats, saveRuleStats, validateRule, formatRuleErrors } from './rule-store';
+
+const log = createLogger('rule-engine');
 
 // Types matching original rule-engine.ts
 export interface FilterRule {
@@ -9,25 +16,25 @@ export interface FilterRule {
   description: string;
   priority: number;
   active: boolean;
-  criteria: {
-    from?: string[];
-    fromDomain?: string[];
-    to?: string[];
-    subject?: string[];
-    bodyKeywords?: string[];
-    hasAttachment?: boolean;
-    excludeKeywords?: string[];
-  };
+  criteria: RuleCriteria; // See rule-criteria.ts for the pattern syntax and groups
+  matchThreshold?: number; // Share of weighted criteria that must match (default 0.5)
+  stopProcessing?: boolean; // true stops evaluation after this rule matches, false continues past it (default depends on the evaluation mode)
   actions: {
     label: string;
     priority?: 1 | 2 | 3 | 4;
     skipAI?: boolean;
+    project?: string; // Todoist project name
+    section?: string; // Section name within the project
+    labels?: string[]; // Extra Todoist labels
+    dueString?: string; // Due date override, e.g. "tomorrow"
+    titleTemplate?: string; // e.g. "Review: {subject}" - see applyRuleActions
   };
   stats: {
     matched: number;
     lastMatched?: Date;
     created: Date;
     accuracy?: number;
+    corrections?: number; // Matches the user later corrected
   };
 }
 
@@ -36,28 +43,154 @@ export interface RuleMatchResult {
   rule?: FilterRule;
   confidence: number;
   matchedCriteria: string[];
+  excluded?: boolean; // An exclude keyword vetoed the rule
+  evaluations?: RuleEvaluation[]; // Every active rule's score for this email, in priority order
+  actions?: FilterRule['actions']; // Combined actions of the contributing rules
+  labels?: string[]; // Gmail labels to apply, winning rule's first
+  contributingRules?: FilterRule[]; // Matched rules whose actions were combined, winning rule first
 }
 
+// How one rule scored against an email (kept for the decision audit trail)
+export interface RuleEvaluation {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  matched: boolean;
+  confidence: number;
+  matchedCriteria: string[];
+  excluded?: boolean;
+  stopped?: boolean; // Not considered - a higher-priority match stopped processing
+}
+
+// first-match: stop at the first matching rule unless it continues; all-matches: collect every match unless one stops
+export type RuleEvaluationMode = 'first-match' | 'all-matches';
+
+// How the winning side is chosen when skip rules and action rules both match
+export type RuleConflictStrategy = 'highest-priority' | 'skip-wins' | 'action-wins' | 'weighted-score';
+
+export interface RuleEvaluationConfig {
+  mode: RuleEvaluationMode;
+  strategy: RuleConflictStrategy;
+}
+
+const SKIP_LABEL = 'TodoAgent_Skip';
+const ACTION_LABELS = ['TodoAgent_Important', 'TodoAgent_Urgent', 'TodoAgent_Meeting', 'TodoAgent_Task'];
+
 // Global rule engine state (functional approach)
 let rules: FilterRule[] = [];
+let invalidRuleEntries: unknown[] = [];
+let canPersistRules = true;
 let isInitialized = false;
+let statsFlushTimer: NodeJS.Timeout | null = null;
+let hasUnsavedStats = false;
+
+// Match stats change on every matched email, so they are batched into the stats file instead of rewriting rules.json
+const STATS_FLUSH_DELAY_MS = 10000;
 
 // Initialize rule engine 
 export const initializeRuleEngine = async (): Promise<void> => {
   if (isInitialized) return;
   
-  console.log('🔧 Initializing Rule Engine...');
-  
-  // Load default rules (matching original loadDefaultRules)
-  loadDefaultRules();
+  log.info('🔧 Initializing Rule Engine...');
   
-  // TODO: Load user custom rules from storage/config
+  const rulesFile = getRulesFilePath();
+  try {
+    const loaded = await loadRulesFile(rulesFile);
+    
+    if (loaded.exists) {
+      rules = loaded.rules;
+      invalidRuleEntries = loaded.invalidEntries;
+      
+      if (loaded.errors.length > 0) {
+        log.error(`❌ Skipped ${loaded.errors.length} invalid rule(s) in ${rulesFile}:`);
+        formatRuleErrors(loaded.errors).forEach(message => log.error(`   - ${message}`));
+      }
+      log.info(`📄 Loaded ${rules.length} rules from ${rulesFile}`);
+    } else {
+      // No rules file yet - start from defaults and write them out for editing
+      loadDefaultRules();
+      await persistRules();
+      log.info(`📄 Created rules file with default rules: ${rulesFile}`);
+    }
+    await mergeSavedStats();
+  } catch (error) {
+    // Unreadable file: use defaults for this run but never overwrite the user's file
+    log.error(`❌ Failed to load rules file ${rulesFile}, using default rules:`, error instanceof Error ? error.message : error);
+    loadDefaultRules();
+    canPersistRules = false;
+  }
   
   isInitialized = true;
-  console.log(`✅ Rule Engine initialized with ${rules.length} rules`);
+  log.info(`✅ Rule Engine initialized with ${rules.length} rules`);
 };
 
-// Load default rules (matching original exactly)
+// Save current rules to the rules file
+const persistRules = async (): Promise<void> => {
+  if (!canPersistRules) {
+    log.warn('⚠️ Rules file could not be loaded - changes will not be saved');
+    return;
+  }
+  
+  try {
+    await saveRulesFile(rules, invalidRuleEntries);
+  } catch (error) {
+    log.error('❌ Failed to save rules file:', error);
+  }
+};
+
+// Overlay the stats file onto the loaded rules (the rules file keeps only the stats of its last explicit save)
+const mergeSavedStats = async (): Promise<void> => {
+  try {
+    const savedStats = await loadRuleStats();
+    rules.forEach(rule => {
+      const stats = savedStats.get(rule.id);
+      if (stats) {
+        rule.stats = { ...stats, created: rule.stats.created };
+      }
+    });
+  } catch (error) {
+    log.warn('⚠️ Failed to load rule stats, using stats from the rules file:', error instanceof Error ? error.message : error);
+  }
+};
+
+// Batch stat updates into one stats file write
+const scheduleStatsFlush = (): void => {
+  hasUnsavedStats = true;
+  if (statsFlushTimer) return;
+
+  statsFlushTimer = setTimeout(() => {
+    statsFlushTimer = null;
+    void flushRuleStats();
+  }, STATS_FLUSH_DELAY_MS);
+  statsFlushTimer.unref();
+};
+
+// Write pending match stats to the stats file now (called on shutdown)
+export const flushRuleStats = async (): Promise<void> => {
+  if (statsFlushTimer) {
+    clearTimeout(statsFlushTimer);
+    statsFlushTimer = null;
+  }
+  if (!hasUnsavedStats) return;
+
+  hasUnsavedStats = false;
+  try {
+    await saveRuleStats(rules);
+  } catch (error) {
+    log.error('❌ Failed to save rule stats:', error);
+  }
+};
+
+// Reload rules from the rules file (picks up manual edits)
+export const reloadRules = async (): Promise<void> => {
+  await flushRuleStats();
+  isInitialized = false;
+  canPersistRules = true;
+  invalidRuleEntries = [];
+  await initializeRuleEngine();
+};
+
+// Load default rules (used when no rules file exists yet)
 const loadDefaultRules = (): void => {
   rules = [
     // High Priority/Boss Rules
@@ -68,7 +201,7 @@ const loadDefaultRules = (): void => {
       priority: 10,
       active: true,
       criteria: {
-        from: ['nishantattrey07@gmail.com'], // User should customize this
+        from: ['nishantattrey07@gmail.com'], // Customize in the rules file
         bodyKeywords: ['urgent', 'asap', 'immediately', 'deadline', 'by today', 'by tomorrow'],
       },
       actions: {
@@ -89,7 +222,7 @@ const loadDefaultRules = (): void => {
       priority: 9,
       active: true,
       criteria: {
-        subject: ['meeting', 'call', 'zoom', 'teams', 'conference'],
+        subject: ['meeting', 'word:call', 'zoom', 'word:teams', 'conference'],
         bodyKeywords: ['calendar', 'appointment', 'schedule', 'invited you to', 'join the meeting']
       },
       actions: {
@@ -158,7 +291,7 @@ const loadDefaultRules = (): void => {
       active: true,
       criteria: {
         from: [
-          // User should customize these
+          // Customize in the rules file
           'nishantattrey07@gmail.com',
         ]
       },
@@ -182,7 +315,27 @@ const loadDefaultRules = (): void => {
       criteria: {
         from: ['noreply@', 'no-reply@', 'marketing@', 'newsletter@', 'notifications@'],
         bodyKeywords: ['unsubscribe', 'marketing', 'promotional', 'advertisement', 'daily digest', 'weekly digest'],
-        subject: ['newsletter', 'promotion', 'sale', 'offer', 'digest', 'tips', 'update']
+        subject: ['newsletter', 'promotion', 'word:sale', 'word:offer', 'digest', 'word:tips', 'word:update']
+      },
+      actions: {
+        label: 'TodoAgent_Skip',
+        skipAI: true,
+      },
+      stats: {
+        matched: 0,
+        created: new Date()
+      }
+    },
+
+    {
+      id: 'promotions-skip',
+      name: 'Promotions Tab',
+      description: 'Skip mail Gmail files under Promotions, unless it is starred',
+      priority: 10,
+      active: true,
+      criteria: {
+        category: ['promotions'],
+        not: [{ labels: ['exact:STARRED'] }]
       },
       actions: {
         label: 'TodoAgent_Skip',
@@ -204,7 +357,7 @@ const loadDefaultRules = (): void => {
         fromDomain: ['todoist.com', 'notion.so', 'slack.com', 'asana.com', 'trello.com', 'monday.com'],
         from: ['no-reply@todoist.com', 'noreply@todoist.com'],
         bodyKeywords: ['daily digest', 'weekly digest', 'task summary', 'productivity tip', 'your tasks for', 'unsubscribe'],
-        subject: ['digest', 'summary', 'tip', 'reminder', 'your tasks', 'daily', 'weekly']
+        subject: ['digest', 'summary', 'word:tip', 'reminder', 'your tasks', 'word:daily', 'word:weekly']
       },
       actions: {
         label: 'TodoAgent_Skip',
@@ -269,10 +422,8 @@ const loadDefaultRules = (): void => {
       priority: 6,
       active: true,
       criteria: {
-        fromDomain: [
-          'facebook.com', 'twitter.com', 'linkedin.com', 'instagram.com',
-          'pinterest.com', 'youtube.com', 'tiktok.com'
-        ],
+        fromDomain: ['/(^|\\.)(facebook|twitter|linkedin|instagram|pinterest|youtube|tiktok)\\.com$/'],
+        category: ['social'],
         subject: ['notification', 'mentioned you', 'tagged you', 'liked your']
       },
       actions: {
@@ -287,141 +438,186 @@ const loadDefaultRules = (): void => {
   ];
 };
 
+const ruleMatches = createCounter('todo_agent_rule_matches_total', 'Emails matched per rule', ['rule']);
+
+// Rule evaluation mode and conflict strategy (RULE_EVALUATION_MODE, RULE_CONFLICT_STRATEGY)
+export const getRuleEvaluationConfig = (): RuleEvaluationConfig => {
+  const mode = process.env.RULE_EVALUATION_MODE || 'first-match';
+  const strategy = process.env.RULE_CONFLICT_STRATEGY || 'highest-priority';
+  return {
+    mode: ['first-match', 'all-matches'].includes(mode) ? mode as RuleEvaluationMode : 'first-match',
+    strategy: ['highest-priority', 'skip-wins', 'action-wins', 'weighted-score'].includes(strategy)
+      ? strategy as RuleConflictStrategy
+      : 'highest-priority'
+  };
+};
+
 // Main email processing function (matching original processEmail)
 export const processEmailWithRules = async (email: EmailData): Promise<RuleMatchResult> => {
   if (!isInitialized) {
     await initializeRuleEngine();
   }
 
+  const matchResult = evaluateRules(email);
+  const rule = matchResult.rule;
+  
+  if (matchResult.matched && rule) {
+    // Update stats of every contributing rule (a dry run leaves them alone)
+    if (!isDryRun()) {
+      (matchResult.contributingRules || [rule]).forEach(matchedRule => {
+        ruleMatches.inc({ rule: matchedRule.id });
+        matchedRule.stats.matched++;
+        matchedRule.stats.lastMatched = new Date();
+        matchedRule.stats.accuracy = calculateAccuracy(matchedRule);
+      });
+      scheduleStatsFlush();
+    }
+    
+    // Apply the rules' labels
+    for (const label of matchResult.labels || [rule.actions.label]) {
+      if (label) {
+        await addLabelToEmail(email.id, label);
+      }
+    }
+    // Rule match success is logged in the main processing flow
+  }
+
+  return matchResult;
+};
+
+// Score every active rule against an email without side effects - matches are collected in priority order and combined
+export const evaluateRules = (
+  email: EmailData,
+  ruleSet: FilterRule[] = rules,
+  config: RuleEvaluationConfig = getRuleEvaluationConfig()
+): RuleMatchResult => {
   // Sort rules by priority (higher first)
-  const sortedRules = rules
+  const sortedRules = ruleSet
     .filter(rule => rule.active)
     .sort((a, b) => b.priority - a.priority);
 
-  for (const rule of sortedRules) {
+  const matches: RuleMatchResult[] = [];
+  let stopped = false;
+  const evaluations: RuleEvaluation[] = sortedRules.map(rule => {
     const matchResult = evaluateRule(email, rule);
-    
-    if (matchResult.matched) {
-      // Update rule stats 
-      rule.stats.matched++;
-      rule.stats.lastMatched = new Date();
-      
-      // Apply the rule's action 
-      if (rule.actions.label) {
-        await addLabelToEmail(email.id, rule.actions.label);
-        // Rule match success is logged in the main processing flow
-      }
-      
-      return matchResult;
+    const considered = !stopped;
+    if (matchResult.matched && considered) {
+      matches.push(matchResult);
+      stopped = rule.stopProcessing ?? config.mode === 'first-match';
     }
-  }
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      priority: rule.priority,
+      matched: matchResult.matched,
+      confidence: matchResult.confidence,
+      matchedCriteria: matchResult.matchedCriteria,
+      excluded: matchResult.excluded,
+      ...(!considered && { stopped: true })
+    };
+  });
 
   // No rules matched 
-  return {
-    matched: false,
-    confidence: 0,
-    matchedCriteria: []
-  };
+  if (matches.length === 0) {
+    return { matched: false, confidence: 0, matchedCriteria: [], evaluations };
+  }
+
+  return { ...resolveRuleConflicts(matches, config.strategy), evaluations };
 };
 
-// Evaluate single rule (matching original evaluateRule exactly)
-const evaluateRule = (email: EmailData, rule: FilterRule): RuleMatchResult => {
-  const matchedCriteria: string[] = [];
-  let totalCriteria = 0;
-  let matchedCount = 0;
-
-  // Check From criteria
-  if (rule.criteria.from && rule.criteria.from.length > 0) {
-    totalCriteria++;
-    if (rule.criteria.from.some(sender => 
-      email.from.toLowerCase().includes(sender.toLowerCase())
-    )) {
-      matchedCriteria.push('from');
-      matchedCount++;
+// Pick the winning side (skip or action) and combine the actions of the rules on it - label-only rules always contribute
+const resolveRuleConflicts = (matches: RuleMatchResult[], strategy: RuleConflictStrategy): RuleMatchResult => {
+  // Higher priority first, ties broken by confidence rather than file order
+  const ranked = [...matches].sort((a, b) => b.rule!.priority - a.rule!.priority || b.confidence - a.confidence);
+  const hasSide = (side: RuleSide) => ranked.some(match => getRuleSide(match.rule!) === side);
+
+  let winningSide = getRuleSide(ranked[0].rule!);
+  if (strategy === 'skip-wins' && hasSide('skip')) {
+    winningSide = 'skip';
+  } else if (strategy === 'action-wins' && hasSide('action')) {
+    winningSide = 'action';
+  } else if (strategy === 'weighted-score' && hasSide('skip') && hasSide('action')) {
+    const score = (side: RuleSide) => ranked
+      .filter(match => getRuleSide(match.rule!) === side)
+      .reduce((total, match) => total + match.rule!.priority * match.confidence, 0);
+    const skipScore = score('skip');
+    const actionScore = score('action');
+    if (skipScore !== actionScore) {
+      winningSide = skipScore > actionScore ? 'skip' : 'action';
     }
   }
-
-  // Check FromDomain criteria
-  if (rule.criteria.fromDomain && rule.criteria.fromDomain.length > 0) {
-    totalCriteria++;
-    const emailDomain = extractDomain(email.from);
-    if (rule.criteria.fromDomain.some(domain => 
-      emailDomain.includes(domain.toLowerCase())
-    )) {
-      matchedCriteria.push('fromDomain');
-      matchedCount++;
-    }
+  if (winningSide === 'other') {
+    winningSide = hasSide('action') ? 'action' : hasSide('skip') ? 'skip' : 'other';
   }
 
-  // Check Subject criteria
-  if (rule.criteria.subject && rule.criteria.subject.length > 0) {
-    totalCriteria++;
-    if (rule.criteria.subject.some(keyword => 
-      email.subject.toLowerCase().includes(keyword.toLowerCase())
-    )) {
-      matchedCriteria.push('subject');
-      matchedCount++;
-    }
-  }
+  const winner = ranked.find(match => getRuleSide(match.rule!) === winningSide)!;
+  const contributors = ranked
+    .filter(match => [winningSide, 'other'].includes(getRuleSide(match.rule!)))
+    .map(match => match.rule!);
+  const contributingRules = [winner.rule!, ...contributors.filter(rule => rule !== winner.rule)];
 
-  // Check Body keywords
-  if (rule.criteria.bodyKeywords && rule.criteria.bodyKeywords.length > 0) {
-    totalCriteria++;
-    const bodyLower = email.body.toLowerCase();
-    const snippetLower = email.snippet.toLowerCase();
-    
-    if (rule.criteria.bodyKeywords.some(keyword => 
-      bodyLower.includes(keyword.toLowerCase()) || 
-      snippetLower.includes(keyword.toLowerCase())
-    )) {
-      matchedCriteria.push('bodyKeywords');
-      matchedCount++;
-    }
-  }
+  return {
+    matched: true,
+    rule: winner.rule,
+    confidence: winner.confidence,
+    matchedCriteria: winner.matchedCriteria,
+    actions: combineRuleActions(contributingRules),
+    labels: Array.from(new Set(contributingRules.map(rule => rule.actions.label).filter(Boolean))),
+    contributingRules
+  };
+};
 
-  // Check exclude keywords (if present, email should NOT match)
-  if (rule.criteria.excludeKeywords && rule.criteria.excludeKeywords.length > 0) {
-    const bodyLower = email.body.toLowerCase();
-    const snippetLower = email.snippet.toLowerCase();
-    const subjectLower = email.subject.toLowerCase();
-    
-    const hasExcludeKeyword = rule.criteria.excludeKeywords.some(keyword => 
-      bodyLower.includes(keyword.toLowerCase()) || 
-      snippetLower.includes(keyword.toLowerCase()) ||
-      subjectLower.includes(keyword.toLowerCase())
-    );
-    
-    if (hasExcludeKeyword) {
-      return {
-        matched: false,
-        confidence: 0,
-        matchedCriteria: []
-      };
+type RuleSide = 'skip' | 'action' | 'other';
+
+const getRuleSide = (rule: FilterRule): RuleSide => {
+  if (rule.actions.skipAI || rule.actions.label === SKIP_LABEL) return 'skip';
+  return ACTION_LABELS.includes(rule.actions.label) ? 'action' : 'other';
+};
+
+// The winning rule's actions, filled in by the others: highest task priority, first project/due date/title, all task labels
+const combineRuleActions = ([winner, ...others]: FilterRule[]): FilterRule['actions'] => {
+  const combined: FilterRule['actions'] = { ...winner.actions };
+  const labels = new Set(winner.actions.labels || []);
+
+  others.forEach(rule => {
+    const actions = rule.actions;
+    if (actions.priority && (!combined.priority || actions.priority > combined.priority)) {
+      combined.priority = actions.priority;
     }
+    if (actions.project && !combined.project) {
+      combined.project = actions.project;
+      combined.section = actions.section;
+    }
+    combined.dueString = combined.dueString || actions.dueString;
+    combined.titleTemplate = combined.titleTemplate || actions.titleTemplate;
+    actions.labels?.forEach(label => labels.add(label));
+  });
+
+  if (labels.size > 0) {
+    combined.labels = Array.from(labels);
   }
+  return combined;
+};
 
-  // Calculate confidence based on matched criteria ratio 
-  const confidence = totalCriteria > 0 ? matchedCount / totalCriteria : 0;
-  
-  // Rule matches if confidence is above threshold 
-  const matched = confidence >= 0.5 && matchedCount > 0; // At least 50% criteria matched
+// Evaluate single rule against its match threshold
+const evaluateRule = (email: EmailData, rule: FilterRule): RuleMatchResult => {
+  const result = evaluateCriteria(email, rule.criteria, rule.matchThreshold ?? DEFAULT_MATCH_THRESHOLD);
 
   return {
-    matched,
-    rule: matched ? rule : undefined,
-    confidence,
-    matchedCriteria
+    matched: result.matched,
+    rule: result.matched ? rule : undefined,
+    confidence: result.confidence,
+    matchedCriteria: result.matchedCriteria,
+    ...(result.excluded && { excluded: true })
   };
 };
 
-// Extract domain from email 
-const extractDomain = (email: string): string => {
-  const match = email.match(/@([^>]+)/);
-  return match ? match[1].toLowerCase() : '';
-};
-
 // Rule management functions (matching original API)
 export const addCustomRule = async (rule: Omit<FilterRule, 'id' | 'stats'>): Promise<string> => {
+  if (!isInitialized) {
+    await initializeRuleEngine();
+  }
+
   const newRule: FilterRule = {
     ...rule,
     id: `custom-${Date.now()}`,
@@ -431,42 +627,91 @@ export const addCustomRule = async (rule: Omit<FilterRule, 'id' | 'stats'>): Pro
     }
   };
   
+  const errors = validateRule(newRule);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule "${newRule.name}": ${errors.join('; ')}`);
+  }
+  
   rules.push(newRule);
-  console.log(`✅ Added custom rule: ${newRule.name}`);
+  log.info(`✅ Added custom rule: ${newRule.name}`);
   
-  // TODO: Persist to storage
+  await persistRules();
   
   return newRule.id;
 };
 
 export const updateRule = async (ruleId: string, updates: Partial<FilterRule>): Promise<boolean> => {
+  if (!isInitialized) {
+    await initializeRuleEngine();
+  }
+
   const ruleIndex = rules.findIndex(r => r.id === ruleId);
   if (ruleIndex === -1) {
     return false;
   }
   
-  rules[ruleIndex] = { ...rules[ruleIndex], ...updates };
-  console.log(`✅ Updated rule: ${ruleId}`);
+  const updatedRule: FilterRule = { ...rules[ruleIndex], ...updates, id: ruleId };
+  const errors = validateRule(updatedRule);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rule update for "${ruleId}": ${errors.join('; ')}`);
+  }
+  
+  rules[ruleIndex] = updatedRule;
+  log.info(`✅ Updated rule: ${ruleId}`);
   
-  // TODO: Persist to storage
+  await persistRules();
   
   return true;
 };
 
 export const deleteRule = async (ruleId: string): Promise<boolean> => {
+  if (!isInitialized) {
+    await initializeRuleEngine();
+  }
+
   const ruleIndex = rules.findIndex(r => r.id === ruleId);
   if (ruleIndex === -1) {
     return false;
   }
   
   rules.splice(ruleIndex, 1);
-  console.log(`✅ Deleted rule: ${ruleId}`);
+  log.info(`✅ Deleted rule: ${ruleId}`);
+  
+  await persistRules();
+  
+  return true;
+};
+
+// Record a user correction against a rule (its match turned out to be wrong)
+export const recordRuleCorrection = async (ruleId: string): Promise<boolean> => {
+  if (!isInitialized) {
+    await initializeRuleEngine();
+  }
+
+  const rule = rules.find(r => r.id === ruleId);
+  if (!rule) {
+    return false;
+  }
   
-  // TODO: Remove from storage
+  rule.stats.corrections = (rule.stats.corrections || 0) + 1;
+  rule.stats.accuracy = calculateAccuracy(rule);
+  log.info(`📉 Rule ${ruleId} corrected by user (accuracy: ${Math.round((rule.stats.accuracy ?? 0) * 100)}%)`);
   
+  // Corrections are rare - save them right away
+  hasUnsavedStats = true;
+  await flushRuleStats();
   return true;
 };
 
+// Accuracy = share of matches the user did not correct (undefined until corrections exist)
+const calculateAccuracy = (rule: FilterRule): number | undefined => {
+  const corrections = rule.stats.corrections || 0;
+  if (corrections === 0 || rule.stats.matched === 0) {
+    return rule.stats.accuracy;
+  }
+  return Math.max(0, (rule.stats.matched - corrections) / rule.stats.matched);
+};
+
 export const getRules = (): FilterRule[] => {
   return [...rules];
 };
@@ -485,25 +730,27 @@ export const getRuleStats = (): { [ruleName: string]: number } => {
 
 // Helper method to suggest new rules based on patterns 
 export const suggestRuleFromPattern = async (
-  pattern: { from?: string; keywords?: string[]; label: string },
+  pattern: { from?: string; fromDomain?: string; keywords?: string[]; label: string },
   sampleCount: number = 3
 ): Promise<FilterRule> => {
   const ruleId = `suggested-${Date.now()}`;
+  const skip = pattern.label === SKIP_LABEL;
   
   return {
     id: ruleId,
-    name: `Auto-suggested: ${pattern.from || pattern.keywords?.join(', ')}`,
+    name: `Auto-suggested: ${pattern.from || pattern.fromDomain || pattern.keywords?.join(', ')}`,
     description: `Suggested rule based on ${sampleCount} similar classifications`,
     priority: 5,
     active: false, // Start inactive for user review
     criteria: {
       from: pattern.from ? [pattern.from] : undefined,
-      bodyKeywords: pattern.keywords || undefined
-    },
-    actions: {
-      label: pattern.label,
-      priority: 2
+      fromDomain: pattern.fromDomain ? [`exact:${pattern.fromDomain}`] : undefined,
+      bodyKeywords: pattern.keywords?.map(keyword => `word:${keyword}`)
     },
+    // Skip suggestions must skip the AI too, or the rule would not save a classification
+    actions: skip
+      ? { label: pattern.label, skipAI: true }
+      : { label: pattern.label, priority: 2 },
     stats: {
       matched: 0,
       created: new Date(),
@@ -0,0 +1,330 @@
+// Rule storage - loads and saves filter rules from a user-editable JSON rules file
+import path from 'path';
+import { getDataPath, readJsonFile, writeJsonFile } from '../core/storage';
+import type { FilterRule } from './rule-engine';
+import { validatePattern, SCORED_FIELDS, FLAG_FIELDS, GROUP_KEYS } from './rule-criteria';
+
+export interface RuleValidationError {
+  index: number;
+  ruleId?: string;
+  errors: string[];
+}
+
+export interface LoadedRules {
+  exists: boolean;
+  rules: FilterRule[];
+  invalidEntries: unknown[];
+  errors: RuleValidationError[];
+}
+
+// On-disk format of the rules file
+interface RulesFile {
+  version: number;
+  rules: unknown[];
+}
+
+// On-disk format of the match stats file, keyed by rule id
+interface RuleStatsFile {
+  version: number;
+  stats: { [ruleId: string]: unknown };
+}
+
+export type RuleStats = FilterRule['stats'];
+
+const RULES_FILE_VERSION = 1;
+const VALID_TASK_PRIORITIES = [1, 2, 3, 4];
+
+// Resolve rules file location (RULES_FILE or <data dir>/rules.json)
+export const getRulesFilePath = (): string => {
+  return process.env.RULES_FILE
+    ? path.resolve(process.env.RULES_FILE)
+    : getDataPath('rules.json');
+};
+
+// Resolve match stats file location (<data dir>/rule-stats.json) - kept apart so matches never rewrite the rules file
+export const getRuleStatsFilePath = (): string => {
+  return getDataPath('rule-stats.json');
+};
+
+// Load and validate rules from a rules file
+export const loadRulesFile = async (filePath: string = getRulesFilePath()): Promise<LoadedRules> => {
+  const content = await readJsonFile<RulesFile | unknown[]>(filePath);
+  if (content === null) {
+    return { exists: false, rules: [], invalidEntries: [], errors: [] };
+  }
+
+  const entries = Array.isArray(content) ? content : content?.rules;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Rules file ${filePath} must contain a "rules" array`);
+  }
+
+  const rules: FilterRule[] = [];
+  const invalidEntries: unknown[] = [];
+  const errors: RuleValidationError[] = [];
+  const seenIds = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    const ruleErrors = validateRule(entry);
+    const ruleId = typeof (entry as any)?.id === 'string' ? (entry as any).id : undefined;
+
+    if (ruleId && seenIds.has(ruleId)) {
+      ruleErrors.push(`duplicate rule id "${ruleId}"`);
+    }
+
+    if (ruleErrors.length > 0) {
+      invalidEntries.push(entry);
+      errors.push({ index, ruleId, errors: ruleErrors });
+      return;
+    }
+
+    seenIds.add(ruleId!);
+    rules.push(deserializeRule(entry as any));
+  });
+
+  return { exists: true, rules, invalidEntries, errors };
+};
+
+// Save rules to the rules file (invalid entries are kept so user edits are never lost)
+export const saveRulesFile = async (
+  rules: FilterRule[],
+  invalidEntries: unknown[] = [],
+  filePath: string = getRulesFilePath()
+): Promise<void> => {
+  const content: RulesFile = {
+    version: RULES_FILE_VERSION,
+    rules: [...rules.map(serializeRule), ...invalidEntries]
+  };
+  await writeJsonFile(filePath, content);
+};
+
+// Load match stats by rule id (empty when no stats file exists yet)
+export const loadRuleStats = async (filePath: string = getRuleStatsFilePath()): Promise<Map<string, RuleStats>> => {
+  const content = await readJsonFile<RuleStatsFile>(filePath);
+  const stats = new Map<string, RuleStats>();
+  if (!content || typeof content.stats !== 'object' || content.stats === null) {
+    return stats;
+  }
+
+  Object.entries(content.stats).forEach(([ruleId, entry]) => {
+    stats.set(ruleId, deserializeStats(entry));
+  });
+  return stats;
+};
+
+// Save the match stats of every rule to the stats file
+export const saveRuleStats = async (rules: FilterRule[], filePath: string = getRuleStatsFilePath()): Promise<void> => {
+  const content: RuleStatsFile = {
+    version: RULES_FILE_VERSION,
+    stats: Object.fromEntries(rules.map(rule => [rule.id, serializeStats(rule.stats)]))
+  };
+  await writeJsonFile(filePath, content);
+};
+
+// Format validation errors for display
+export const formatRuleErrors = (errors: RuleValidationError[]): string[] => {
+  return errors.map(error => {
+    const label = error.ruleId ? `Rule #${error.index + 1} ("${error.ruleId}")` : `Rule #${error.index + 1}`;
+    return `${label}: ${error.errors.join('; ')}`;
+  });
+};
+
+// Validate a single rule definition, returning a list of problems (empty when valid)
+export const validateRule = (rule: any): string[] => {
+  const errors: string[] = [];
+
+  if (!rule || typeof rule !== 'object' || Array.isArray(rule)) {
+    return ['rule must be an object'];
+  }
+
+  if (!isNonEmptyString(rule.id)) errors.push('"id" must be a non-empty string');
+  if (!isNonEmptyString(rule.name)) errors.push('"name" must be a non-empty string');
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    errors.push('"description" must be a string');
+  }
+  if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) {
+    errors.push('"priority" must be a number');
+  }
+  if (rule.active !== undefined && typeof rule.active !== 'boolean') {
+    errors.push('"active" must be true or false');
+  }
+
+  if (rule.matchThreshold !== undefined && (typeof rule.matchThreshold !== 'number' || !(rule.matchThreshold > 0 && rule.matchThreshold <= 1))) {
+    errors.push('"matchThreshold" must be a number above 0 and at most 1');
+  }
+
+  if (rule.stopProcessing !== undefined && typeof rule.stopProcessing !== 'boolean') {
+    errors.push('"stopProcessing" must be true or false');
+  }
+
+  errors.push(...validateCriteria(rule.criteria));
+  errors.push(...validateActions(rule.actions));
+
+  return errors;
+};
+
+const validateCriteria = (criteria: any, path: string = 'criteria'): string[] => {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+    return [`"${path}" must be an object`];
+  }
+
+  const errors: string[] = [];
+  const fieldCriteria = Object.keys(SCORED_FIELDS);
+  const flagCriteria = Object.keys(FLAG_FIELDS);
+  const knownFields = [...fieldCriteria, ...flagCriteria, 'excludeKeywords', ...GROUP_KEYS];
+
+  for (const field of fieldCriteria) {
+    if (criteria[field] !== undefined) {
+      errors.push(...validateFieldCriterion(criteria[field], `${path}.${field}`));
+    }
+  }
+
+  if (criteria.excludeKeywords !== undefined) {
+    errors.push(...validatePatterns(criteria.excludeKeywords, `${path}.excludeKeywords`));
+  }
+
+  for (const field of flagCriteria) {
+    if (criteria[field] !== undefined && typeof criteria[field] !== 'boolean') {
+      errors.push(`"${path}.${field}" must be true or false`);
+    }
+  }
+
+  for (const group of GROUP_KEYS) {
+    const value = criteria[group];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.length === 0) {
+      errors.push(`"${path}.${group}" must be a non-empty array of criteria`);
+      continue;
+    }
+    value.forEach((entry, index) => errors.push(...validateCriteria(entry, `${path}.${group}[${index}]`)));
+  }
+
+  Object.keys(criteria)
+    .filter(field => !knownFields.includes(field))
+    .forEach(field => errors.push(`unknown criteria field "${path}.${field}"`));
+
+  if (!knownFields.some(field => criteria[field] !== undefined)) {
+    errors.push(`"${path}" must define at least one field`);
+  }
+
+  return errors;
+};
+
+// A field is a pattern list, or an object with any/all/not pattern lists and an optional weight
+const validateFieldCriterion = (value: any, path: string): string[] => {
+  if (Array.isArray(value)) {
+    return validatePatterns(value, path);
+  }
+  if (!value || typeof value !== 'object') {
+    return [`"${path}" must be an array of patterns or an object with any/all/not`];
+  }
+
+  const errors: string[] = [];
+  const lists = ['any', 'all', 'not'];
+  lists.forEach(list => {
+    if (value[list] !== undefined) {
+      errors.push(...validatePatterns(value[list], `${path}.${list}`));
+    }
+  });
+  if (!lists.some(list => value[list] !== undefined)) {
+    errors.push(`"${path}" must define any, all or not`);
+  }
+  if (value.weight !== undefined && (typeof value.weight !== 'number' || !(value.weight > 0) || !Number.isFinite(value.weight))) {
+    errors.push(`"${path}.weight" must be a positive number`);
+  }
+  Object.keys(value)
+    .filter(key => ![...lists, 'weight'].includes(key))
+    .forEach(key => errors.push(`unknown field "${path}.${key}"`));
+
+  return errors;
+};
+
+const validatePatterns = (value: unknown, path: string): string[] => {
+  if (!isStringArray(value)) {
+    return [`"${path}" must be an array of strings`];
+  }
+  return value
+    .map(pattern => validatePattern(pattern))
+    .filter((error): error is string => error !== null)
+    .map(error => `"${path}": ${error}`);
+};
+
+const validateActions = (actions: any): string[] => {
+  if (!actions || typeof actions !== 'object' || Array.isArray(actions)) {
+    return ['"actions" must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(actions.label)) {
+    errors.push('"actions.label" must be a non-empty string');
+  }
+  if (actions.priority !== undefined && !VALID_TASK_PRIORITIES.includes(actions.priority)) {
+    errors.push('"actions.priority" must be 1, 2, 3 or 4');
+  }
+  if (actions.skipAI !== undefined && typeof actions.skipAI !== 'boolean') {
+    errors.push('"actions.skipAI" must be true or false');
+  }
+  for (const field of ['project', 'section', 'dueString', 'titleTemplate']) {
+    if (actions[field] !== undefined && !isNonEmptyString(actions[field])) {
+      errors.push(`"actions.${field}" must be a non-empty string`);
+    }
+  }
+  if (actions.section !== undefined && actions.project === undefined) {
+    errors.push('"actions.section" requires "actions.project"');
+  }
+  if (actions.labels !== undefined && !isStringArray(actions.labels)) {
+    errors.push('"actions.labels" must be an array of strings');
+  }
+
+  return errors;
+};
+
+// Convert a validated file entry into a FilterRule (dates revived, defaults filled)
+const deserializeRule = (entry: any): FilterRule => {
+  return {
+    id: entry.id,
+    name: entry.name,
+    description: entry.description || '',
+    priority: entry.priority,
+    active: entry.active !== false,
+    criteria: entry.criteria,
+    matchThreshold: entry.matchThreshold,
+    stopProcessing: entry.stopProcessing,
+    actions: entry.actions,
+    stats: deserializeStats(entry.stats)
+  };
+};
+
+const deserializeStats = (entry: any): RuleStats => {
+  const stats = entry && typeof entry === 'object' ? entry : {};
+  return {
+    matched: typeof stats.matched === 'number' ? stats.matched : 0,
+    lastMatched: toDate(stats.lastMatched),
+    created: toDate(stats.created) || new Date(),
+    accuracy: typeof stats.accuracy === 'number' ? stats.accuracy : undefined,
+    corrections: typeof stats.corrections === 'number' ? stats.corrections : undefined
+  };
+};
+
+const serializeRule = (rule: FilterRule): unknown => ({
+  ...rule,
+  stats: serializeStats(rule.stats)
+});
+
+const serializeStats = (stats: RuleStats): unknown => ({
+  ...stats,
+  lastMatched: stats.lastMatched?.toISOString(),
+  created: stats.created.toISOString()
+});
+
+const toDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
@@ -0,0 +1,80 @@
+// Rule suggestions - turns patterns from the AI classification history into real rules, so repeat senders stop costing LLM calls
+import { EmailData } from '../core/types';
+import { createLogger } from '../core/logger';
+import { getSuggestedRules, getClassificationHistory, RuleSuggestion } from './ai-service';
+import { evaluateRules, suggestRuleFromPattern, addCustomRule, getRule, initializeRuleEngine, FilterRule } from './rule-engine';
+
+const log = createLogger('rule-suggestions');
+
+// A suggestion plus what its rule would do to the emails already in the classification history
+export interface RuleSuggestionPreview extends RuleSuggestion {
+  historyMatches: number; // History emails the rule would match
+  historyConflicts: number; // Of those, emails classified with a different label
+  skipAI: boolean; // The rule skips the AI for everything it matches - accepting needs confirmation
+}
+
+// Suggestions whose sample emails are not already sent to the suggested label by an active rule
+export const getOpenRuleSuggestions = async (): Promise<RuleSuggestionPreview[]> => {
+  await initializeRuleEngine();
+  const suggestions = await getSuggestedRules();
+  const open = suggestions.filter(suggestion => !suggestion.samples.every(sample => {
+    const result = evaluateRules(toSampleEmail(sample));
+    return result.matched && (result.actions || result.rule!.actions).label === suggestion.suggestedLabel;
+  }));
+  return Promise.all(open.map(previewSuggestion));
+};
+
+// Find one open suggestion by ID
+export const getRuleSuggestion = async (suggestionId: string): Promise<RuleSuggestionPreview | undefined> => {
+  return (await getOpenRuleSuggestions()).find(candidate => candidate.id === suggestionId);
+};
+
+// Create an active, persisted rule from a suggestion - returns null when the suggestion is unknown or already covered
+export const acceptRuleSuggestion = async (suggestionId: string): Promise<FilterRule | null> => {
+  const suggestion = await getRuleSuggestion(suggestionId);
+  if (!suggestion) {
+    return null;
+  }
+
+  const { id: _id, stats: _stats, ...suggested } = await buildSuggestedRule(suggestion);
+  const ruleId = await addCustomRule({ ...suggested, active: true });
+  log.info(`✅ Accepted ${suggestion.type} suggestion ${suggestion.id} (${suggestion.pattern} → ${suggestion.suggestedLabel}, ${suggestion.historyMatches} history matches) as rule ${ruleId}`);
+
+  return getRule(ruleId) || null;
+};
+
+// Sender suggestions on a shared domain are a full address, matched as a whole word
+const buildSuggestedRule = (suggestion: RuleSuggestion): Promise<FilterRule> => {
+  const pattern = suggestion.type === 'keyword'
+    ? { keywords: [suggestion.pattern], label: suggestion.suggestedLabel }
+    : suggestion.pattern.includes('@')
+      ? { from: `word:${suggestion.pattern}`, label: suggestion.suggestedLabel }
+      : { fromDomain: suggestion.pattern, label: suggestion.suggestedLabel };
+  return suggestRuleFromPattern(pattern, suggestion.sampleCount);
+};
+
+// Run the suggested rule on its own over the classification history
+const previewSuggestion = async (suggestion: RuleSuggestion): Promise<RuleSuggestionPreview> => {
+  const rule = { ...await buildSuggestedRule(suggestion), active: true };
+  const matches = getClassificationHistory().filter(record => evaluateRules(toSampleEmail(record), [rule]).matched);
+
+  return {
+    ...suggestion,
+    historyMatches: matches.length,
+    historyConflicts: matches.filter(record => (record.correctedLabel || record.classification) !== suggestion.suggestedLabel).length,
+    skipAI: !!rule.actions.skipAI
+  };
+};
+
+// Rebuild enough of an email from a history record or sample to run the rules on it
+const toSampleEmail = (sample: { emailId: string; from: string; subject: string; snippet?: string; timestamp: string | Date }): EmailData => ({
+  id: sample.emailId,
+  threadId: sample.emailId,
+  from: sample.from,
+  to: '',
+  subject: sample.subject,
+  body: sample.snippet || '',
+  snippet: sample.snippet || '',
+  labelIds: [],
+  timestamp: new Date(sample.timestamp)
+});
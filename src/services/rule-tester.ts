@@ -0,0 +1,86 @@
+// Rule tester - dry-runs the rules against Gmail messages or local .eml files without labeling anything or creating tasks
+import { EmailData } from '../core/types';
+import { getEmails, getEmailById } from './gmail';
+import { loadEmlFiles } from './eml';
+import { evaluateRules, FilterRule, RuleMatchResult } from './rule-engine';
+import { loadRulesFile, formatRuleErrors } from './rule-store';
+
+// Where the test emails come from
+export type RuleTestSource =
+  | { type: 'query'; query: string; maxResults: number }
+  | { type: 'id'; emailId: string }
+  | { type: 'eml'; paths: string[] };
+
+export interface RuleTestResult {
+  email: EmailData;
+  result: RuleMatchResult;
+}
+
+export interface RuleDiffResult {
+  email: EmailData;
+  current: RuleMatchResult;
+  candidate: RuleMatchResult;
+  changed: boolean;
+}
+
+export interface CandidateRules {
+  rules: FilterRule[];
+  errors: string[];
+}
+
+// Fetch the emails to test against (Gmail reads only)
+export const loadTestEmails = async (source: RuleTestSource): Promise<EmailData[]> => {
+  switch (source.type) {
+    case 'query':
+      return getEmails({ query: source.query, maxResults: source.maxResults });
+    case 'id':
+      const email = await getEmailById(source.emailId);
+      if (!email) {
+        throw new Error(`Email not found: ${source.emailId}`);
+      }
+      return [email];
+    case 'eml':
+      return loadEmlFiles(source.paths);
+  }
+};
+
+// Load a candidate rules file - invalid entries are reported, not fatal
+export const loadCandidateRules = async (filePath: string): Promise<CandidateRules> => {
+  const loaded = await loadRulesFile(filePath);
+  if (!loaded.exists) {
+    throw new Error(`Rules file not found: ${filePath}`);
+  }
+  return { rules: loaded.rules, errors: formatRuleErrors(loaded.errors) };
+};
+
+// Evaluate a rule set against each email
+export const testRules = (emails: EmailData[], ruleSet: FilterRule[]): RuleTestResult[] => {
+  return emails.map(email => ({ email, result: evaluateRules(email, ruleSet) }));
+};
+
+// Compare the outcome of two rule sets for each email
+export const diffRules = (emails: EmailData[], currentRules: FilterRule[], candidateRules: FilterRule[]): RuleDiffResult[] => {
+  return emails.map(email => {
+    const current = evaluateRules(email, currentRules);
+    const candidate = evaluateRules(email, candidateRules);
+    return { email, current, candidate, changed: outcomeKey(current) !== outcomeKey(candidate) };
+  });
+};
+
+// One-line summary of what the agent would do after rule evaluation
+export const describeRuleOutcome = (result: RuleMatchResult): string => {
+  if (!result.matched || !result.rule) {
+    return 'no rule matched → classifier decides';
+  }
+  const names = (result.contributingRules || [result.rule]).map(rule => rule.name).join(' + ');
+  const labels = result.labels || [result.rule.actions.label];
+  const skipAI = (result.actions || result.rule.actions).skipAI;
+  return `${names} → ${labels.join(', ')}${skipAI ? ' (skip AI)' : ''}`;
+};
+
+// Two results are the same outcome when the same rule wins with the same labels and actions
+const outcomeKey = (result: RuleMatchResult): string => {
+  if (!result.matched || !result.rule) return '';
+  const actions = result.actions || result.rule.actions;
+  return `${result.rule.id}|${(result.labels || [actions.label]).join(',')}|${!!actions.skipAI}`;
+};
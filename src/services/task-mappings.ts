@@ -0,0 +1,235 @@
+// Email thread ↔ Todoist task mappings - lets follow-up replies update the existing task
+import { getDataPath, readJsonFile, writeJsonFile, withFileLock } from '../core/storage';
+import { EmailData, TaskData } from '../core/types';
+import { createLogger } from '../core/logger';
+import { createTask, getTask, addTaskComment, updateTaskDueDate, reopenTask } from './todoist';
+import { auditStep, updateAuditRecord } from './audit';
+import { isDryRun } from './dry-run';
+
+const log = createLogger('task-mappings');
+
+export type TaskMappingStatus = 'open' | 'completed' | 'deleted';
+
+export interface TaskMapping {
+  taskId: string;
+  threadId: string;
+  emailIds: string[];
+  status: TaskMappingStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadFollowUpConfig {
+  mode: 'comment' | 'due' | 'comment_and_due' | 'new_task';
+  reopenCompleted: boolean;
+}
+
+export interface TaskSubmitResult {
+  success: boolean;
+  taskId?: string;
+  error?: string;
+  updatedExisting?: boolean;
+}
+
+// Global mapping state (functional approach)
+let mappings: { [taskId: string]: TaskMapping } = {};
+let isMappingsInitialized = false;
+
+const getMappingsFilePath = (): string => getDataPath('task-mappings.json');
+
+// Follow-up behaviour (THREAD_FOLLOWUP_MODE, THREAD_REOPEN_COMPLETED)
+export const getThreadFollowUpConfig = (): ThreadFollowUpConfig => {
+  const mode = process.env.THREAD_FOLLOWUP_MODE || 'comment';
+  return {
+    mode: ['comment', 'due', 'comment_and_due', 'new_task'].includes(mode)
+      ? mode as ThreadFollowUpConfig['mode']
+      : 'comment',
+    reopenCompleted: process.env.THREAD_REOPEN_COMPLETED === 'true'
+  };
+};
+
+// Load mappings from disk
+export const initializeTaskMappings = async (): Promise<void> => {
+  if (isMappingsInitialized) return;
+  mappings = await loadMappings();
+  isMappingsInitialized = true;
+};
+
+// Create a task for the email, or update the thread's existing task if there is one
+export const createOrUpdateThreadTask = async (email: EmailData, taskData: TaskData): Promise<TaskSubmitResult> => {
+  await initializeTaskMappings();
+  // Another process (CLI or agent) may have mapped this email or thread since we loaded
+  if (!isDryRun()) {
+    mappings = await loadMappings();
+  }
+
+  // A retried email (e.g. after a crash) may already have its task - never create a second one
+  const created = getMappingForEmail(email.id);
+  if (created) {
+    auditStep(`Task ${created.taskId} already exists for this email`);
+    updateAuditRecord({ taskId: created.taskId });
+    return { success: true, taskId: created.taskId, updatedExisting: true };
+  }
+
+  const config = getThreadFollowUpConfig();
+
+  const existing = config.mode !== 'new_task' ? getMappingForThread(email.threadId) : undefined;
+  if (existing) {
+    const followUp = await applyFollowUp(existing, email, taskData, config);
+    if (followUp) {
+      if (followUp.success) {
+        auditStep(`Updated existing thread task ${followUp.taskId} (${config.mode})`);
+        updateAuditRecord({ taskId: followUp.taskId, updatedExistingTask: true });
+      }
+      return followUp;
+    }
+  }
+
+  const result = await createTask(taskData);
+  if (result.success && result.taskId) {
+    await recordTaskForEmail(result.taskId, email);
+    auditStep(`Created task ${result.taskId}: "${taskData.title}"`);
+    updateAuditRecord({ taskId: result.taskId, updatedExistingTask: false });
+  }
+  return result;
+};
+
+// Update an existing thread task with a follow-up email - returns null when a new task should be created
+const applyFollowUp = async (
+  mapping: TaskMapping,
+  email: EmailData,
+  taskData: TaskData,
+  config: ThreadFollowUpConfig
+): Promise<TaskSubmitResult | null> => {
+  if (mapping.emailIds.includes(email.id)) {
+    return { success: true, taskId: mapping.taskId, updatedExisting: true };
+  }
+
+  let task: Awaited<ReturnType<typeof getTask>> | undefined;
+  try {
+    task = await getTask(mapping.taskId);
+  } catch (error) {
+    // Unknown state (rate limit, outage) - never treat it as deleted, just try to update the task
+    log.warn(`⚠️ Could not check task ${mapping.taskId}: ${error instanceof Error ? error.message : error}`);
+    task = undefined;
+  }
+
+  // null only when Todoist confirmed the task is gone
+  if (task === null) {
+    log.info(`🧵 Task ${mapping.taskId} for thread ${email.threadId} no longer exists - creating a new task`);
+    await setTaskMappingStatus(mapping.taskId, 'deleted');
+    return null;
+  }
+
+  if (task?.isCompleted || mapping.status === 'completed') {
+    if (!config.reopenCompleted) {
+      log.info(`🧵 Task ${mapping.taskId} for thread ${email.threadId} is completed - creating a new task`);
+      await setTaskMappingStatus(mapping.taskId, 'completed');
+      return null;
+    }
+
+    if (!await reopenTask(mapping.taskId)) {
+      return { success: false, taskId: mapping.taskId, error: `Failed to reopen task ${mapping.taskId}` };
+    }
+    log.info(`🧵 Reopened task ${mapping.taskId} for new reply in thread ${email.threadId}`);
+  }
+
+  if (config.mode === 'comment' || config.mode === 'comment_and_due') {
+    const comment = `📧 Follow-up from ${email.from} (${new Date(email.timestamp).toLocaleString()}):\n${email.snippet}`;
+    if (!await addTaskComment(mapping.taskId, comment)) {
+      return { success: false, taskId: mapping.taskId, error: `Failed to comment on task ${mapping.taskId}` };
+    }
+  }
+
+  if ((config.mode === 'due' || config.mode === 'comment_and_due') && taskData.dueDate) {
+    if (!await updateTaskDueDate(mapping.taskId, taskData.dueDate)) {
+      return { success: false, taskId: mapping.taskId, error: `Failed to update due date of task ${mapping.taskId}` };
+    }
+  }
+
+  // Appended to the latest copy, so a reply recorded by another process meanwhile is kept
+  await updateMappings(current => {
+    const latest = current[mapping.taskId];
+    if (!latest || latest.emailIds.includes(email.id)) return;
+    current[mapping.taskId] = { ...latest, emailIds: [...latest.emailIds, email.id], status: 'open', updatedAt: new Date().toISOString() };
+  });
+
+  log.info(`🧵 Email ${email.id} added to existing task ${mapping.taskId} (thread ${email.threadId})`);
+  return { success: true, taskId: mapping.taskId, updatedExisting: true };
+};
+
+// Record a newly created task for an email
+export const recordTaskForEmail = async (taskId: string, email: EmailData): Promise<void> => {
+  await initializeTaskMappings();
+  const now = new Date().toISOString();
+  await updateMappings(current => {
+    current[taskId] = {
+      taskId,
+      threadId: email.threadId,
+      emailIds: [email.id],
+      status: 'open',
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+};
+
+// Find the most recent task mapped to a thread
+export const getMappingForThread = (threadId: string): TaskMapping | undefined => {
+  if (!threadId) return undefined;
+  return Object.values(mappings)
+    .filter(mapping => mapping.threadId === threadId && mapping.status !== 'deleted')
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+};
+
+// Find the task created for an email
+export const getMappingForEmail = (emailId: string): TaskMapping | undefined => {
+  return Object.values(mappings).find(mapping => mapping.emailIds.includes(emailId));
+};
+
+// Get the mapping for a task
+export const getTaskMapping = (taskId: string): TaskMapping | undefined => {
+  return mappings[taskId];
+};
+
+// List mappings, optionally filtered by status
+export const listTaskMappings = (status?: TaskMappingStatus): TaskMapping[] => {
+  return Object.values(mappings).filter(mapping => !status || mapping.status === status);
+};
+
+// Update task status (e.g. after the task is completed in Todoist)
+export const setTaskMappingStatus = async (taskId: string, status: TaskMappingStatus): Promise<void> => {
+  await updateMapping(taskId, { status });
+};
+
+const updateMapping = async (taskId: string, updates: Partial<TaskMapping>): Promise<void> => {
+  await initializeTaskMappings();
+  await updateMappings(current => {
+    if (!current[taskId]) return;
+    current[taskId] = { ...current[taskId], ...updates, updatedAt: new Date().toISOString() };
+  });
+};
+
+const loadMappings = async (): Promise<{ [taskId: string]: TaskMapping }> => {
+  return (await readJsonFile<{ [taskId: string]: TaskMapping }>(getMappingsFilePath())) || {};
+};
+
+// Read-modify-write the mappings file under a lock - the CLI and the running agent both write it
+const updateMappings = async (update: (current: { [taskId: string]: TaskMapping }) => void): Promise<void> => {
+  // Dry-run tasks don't exist, so their mappings are never written
+  if (isDryRun()) {
+    update(mappings);
+    return;
+  }
+
+  try {
+    await withFileLock(getMappingsFilePath(), async () => {
+      const current = await loadMappings();
+      update(current);
+      await writeJsonFile(getMappingsFilePath(), current);
+      mappings = current;
+    });
+  } catch (error) {
+    log.error('❌ Failed to save task mappings:', error);
+  }
+};
@@ -0,0 +1,220 @@
+// Task Sync - polls Todoist for agent-created tasks and updates the originating emails when they are closed
+import { createLogger, withLogContext } from '../core/logger';
+import { getActiveTasks, getTask } from './todoist';
+import { addLabelToEmail, removeLabelFromEmail, markEmailRead, archiveEmail, ensureLabel } from './gmail';
+import { initializeTaskMappings, listTaskMappings, setTaskMappingStatus, TaskMapping } from './task-mappings';
+import { runFeedbackScan, recordTaskDeletedFeedback } from './feedback';
+
+const log = createLogger('task-sync');
+
+export type TaskSyncAction = 'mark_read' | 'archive' | 'label_done' | 'remove_processed';
+
+export interface TaskSyncConfig {
+  intervalMinutes: number;
+  enabled: boolean;
+  feedbackScan: boolean;
+  taskLabel: string;
+  onCompleted: TaskSyncAction[];
+  onDeleted: TaskSyncAction[];
+}
+
+export interface TaskSyncStats {
+  totalRuns: number;
+  tasksCompleted: number;
+  tasksDeleted: number;
+  emailsUpdated: number;
+  lastRunTime?: Date;
+  nextRunTime?: Date;
+  lastError?: string;
+  isRunning: boolean;
+}
+
+const VALID_SYNC_ACTIONS: TaskSyncAction[] = ['mark_read', 'archive', 'label_done', 'remove_processed'];
+const DONE_LABEL = 'TodoAgent_Done';
+
+// Parse a comma-separated action list from the environment
+const parseActions = (value: string | undefined, defaults: TaskSyncAction[]): TaskSyncAction[] => {
+  if (value === undefined) return defaults;
+  return value
+    .split(',')
+    .map(action => action.trim())
+    .filter((action): action is TaskSyncAction => {
+      if (!action || action === 'none') return false;
+      if (!VALID_SYNC_ACTIONS.includes(action as TaskSyncAction)) {
+        log.warn(`⚠️ Ignoring unknown task sync action "${action}"`);
+        return false;
+      }
+      return true;
+    });
+};
+
+// Global sync state (functional approach)
+let syncConfig: TaskSyncConfig = {
+  intervalMinutes: parseInt(process.env.TASK_SYNC_INTERVAL_MINUTES || '10'),
+  enabled: process.env.TASK_SYNC_ENABLED !== 'false',
+  feedbackScan: process.env.FEEDBACK_SCAN_ENABLED !== 'false',
+  taskLabel: 'email-todo',
+  onCompleted: parseActions(process.env.TASK_SYNC_ON_COMPLETE, ['label_done']),
+  onDeleted: parseActions(process.env.TASK_SYNC_ON_DELETE, [])
+};
+
+let syncStats: TaskSyncStats = {
+  totalRuns: 0,
+  tasksCompleted: 0,
+  tasksDeleted: 0,
+  emailsUpdated: 0,
+  isRunning: false
+};
+
+let syncInterval: NodeJS.Timeout | null = null;
+
+// Start periodic task sync
+export const startTaskSync = async (config?: Partial<TaskSyncConfig>): Promise<void> => {
+  if (config) {
+    syncConfig = { ...syncConfig, ...config };
+  }
+
+  if (!syncConfig.enabled) {
+    log.info(' Task sync is disabled');
+    return;
+  }
+
+  if (syncInterval) {
+    return;
+  }
+
+  const intervalMs = syncConfig.intervalMinutes * 60 * 1000;
+  syncInterval = setInterval(async () => {
+    await runTaskSync();
+  }, intervalMs);
+
+  syncStats.nextRunTime = new Date(Date.now() + intervalMs);
+  log.info(`✅ Task sync started (every ${syncConfig.intervalMinutes} minutes). Next run: ${syncStats.nextRunTime.toLocaleTimeString()}`);
+};
+
+// Stop periodic task sync
+export const stopTaskSync = (): void => {
+  if (syncInterval) {
+    clearInterval(syncInterval);
+    syncInterval = null;
+    syncStats.nextRunTime = undefined;
+    log.info('🛑 Task sync stopped');
+  }
+};
+
+// Run a single sync cycle
+export const runTaskSync = async (): Promise<TaskSyncStats> => {
+  return withLogContext({ source: 'task-sync' }, runSyncCycle);
+};
+
+const runSyncCycle = async (): Promise<TaskSyncStats> => {
+  if (syncStats.isRunning) {
+    log.info(' Task sync already running, skipping this cycle');
+    return { ...syncStats };
+  }
+
+  syncStats.isRunning = true;
+  syncStats.totalRuns++;
+
+  try {
+    await initializeTaskMappings();
+    const openMappings = listTaskMappings('open');
+
+    let completed = 0;
+    let deleted = 0;
+
+    // A failure here aborts the run - otherwise every task would look deleted
+    const activeTasks = openMappings.length > 0 ? await getActiveTasks(syncConfig.taskLabel) : [];
+    const activeIds = new Set(activeTasks.map(task => task.id));
+
+    for (const mapping of openMappings) {
+      if (activeIds.has(mapping.taskId)) continue;
+
+      // Not in the active list: completed, deleted, or the label was removed
+      let task;
+      try {
+        task = await getTask(mapping.taskId);
+      } catch (error) {
+        // Unknown state - try again next cycle rather than treating the task as deleted
+        log.warn(`⚠️ Could not check task ${mapping.taskId}, skipping: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+      if (task && !task.isCompleted) continue;
+
+      const status = task ? 'completed' : 'deleted';
+      await setTaskMappingStatus(mapping.taskId, status);
+      await applySyncActions(mapping, status === 'completed' ? syncConfig.onCompleted : syncConfig.onDeleted);
+
+      if (status === 'completed') {
+        completed++;
+      } else {
+        deleted++;
+        // Todoist confirmed the deletion (getTask returned null, not an error) - deleting a task
+        // without completing it means it should not have been created
+        await recordTaskDeletedFeedback(mapping);
+      }
+      log.info(`🔄 Task ${mapping.taskId} was ${status} - updated ${mapping.emailIds.length} email(s)`);
+    }
+
+    syncStats.tasksCompleted += completed;
+    syncStats.tasksDeleted += deleted;
+    syncStats.lastError = undefined;
+    log.info(`✅ Task sync complete: ${openMappings.length} open tasks checked, ${completed} completed, ${deleted} deleted`);
+
+    // Look for label corrections made in Gmail on the same cadence
+    if (syncConfig.feedbackScan) {
+      await runFeedbackScan();
+    }
+
+  } catch (error) {
+    syncStats.lastError = error instanceof Error ? error.message : 'Unknown error';
+    log.error('❌ Task sync failed:', error);
+  } finally {
+    syncStats.isRunning = false;
+    syncStats.lastRunTime = new Date();
+    if (syncInterval) {
+      syncStats.nextRunTime = new Date(Date.now() + syncConfig.intervalMinutes * 60 * 1000);
+    }
+  }
+
+  return { ...syncStats };
+};
+
+// Apply configured Gmail actions to every email linked to a task
+const applySyncActions = async (mapping: TaskMapping, actions: TaskSyncAction[]): Promise<void> => {
+  if (actions.length === 0) return;
+
+  if (actions.includes('label_done')) {
+    await ensureLabel(DONE_LABEL);
+  }
+
+  for (const emailId of mapping.emailIds) {
+    for (const action of actions) {
+      switch (action) {
+        case 'mark_read':
+          await markEmailRead(emailId);
+          break;
+        case 'archive':
+          await archiveEmail(emailId);
+          break;
+        case 'label_done':
+          await addLabelToEmail(emailId, DONE_LABEL);
+          break;
+        case 'remove_processed':
+          await removeLabelFromEmail(emailId, 'TodoAgent_Processed');
+          break;
+      }
+    }
+    syncStats.emailsUpdated++;
+  }
+};
+
+// Get sync statistics
+export const getTaskSyncStats = (): TaskSyncStats => {
+  return { ...syncStats };
+};
+
+// Get current sync configuration
+export const getTaskSyncConfig = (): TaskSyncConfig => {
+  return { ...syncConfig };
+};
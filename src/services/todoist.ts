@@ -1,16 +1,28 @@
 // Simple Todoist service using Composio actions
 import { executeAction, getActiveTodoistAccount } from './composio';
 import { TaskData, EmailData } from '../core/types';
+import { createLogger } from '../core/logger';
+import { isDryRun, recordDryRunAction, nextDryRunTaskId } from './dry-run';
+import type { AIClassificationResult } from './ai-service';
+import type { FilterRule } from './rule-engine';
+
+const log = createLogger('todoist');
 
 // Create a Todoist task
 export const createTask = async (taskData: TaskData): Promise<{success: boolean, taskId?: string, error?: string}> => {
+  if (isDryRun()) {
+    const taskId = nextDryRunTaskId();
+    recordDryRunAction({ type: 'create_task', taskId, taskData });
+    return { success: true, taskId };
+  }
+
   try {
     const todoistAccount = await getActiveTodoistAccount();
     if (!todoistAccount) {
       return { success: false, error: 'No active Todoist account found' };
     }
 
-    console.log(`📋 Creating task: ${taskData.title}`);
+    log.info(`📋 Creating task: ${taskData.title}`);
     
     // Clean up arguments - remove empty/invalid values that might cause "Invalid argument value"
     const cleanArgs: any = {
@@ -33,6 +45,10 @@ export const createTask = async (taskData: TaskData): Promise<{success: boolean,
       cleanArgs.project_id = taskData.projectId.trim();
     }
     
+    if (taskData.sectionId && taskData.sectionId.trim()) {
+      cleanArgs.section_id = taskData.sectionId.trim();
+    }
+    
     if (taskData.labels && Array.isArray(taskData.labels) && taskData.labels.length > 0) {
       cleanArgs.labels = taskData.labels;
     }
@@ -46,21 +62,135 @@ export const createTask = async (taskData: TaskData): Promise<{success: boolean,
     const taskId = result.data?.id || result.data?.task_id || result.id || result.task_id;
     
     if (taskId) {
-      console.log(`✅ Task created with ID: ${taskId}`);
+      log.info(`✅ Task created with ID: ${taskId}`);
       return { success: true, taskId: taskId.toString() };
     }
 
-    console.log('❌ No task ID found in result:', result);
+    log.info('❌ No task ID found in result:', result);
     return { success: false, error: 'Task creation returned no ID' };
 
   } catch (error) {
-    console.error('❌ Failed to create task:', error);
+    log.error('❌ Failed to create task:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 };
 
-// Create task from email data
-export const createTaskFromEmail = async (email: EmailData): Promise<{success: boolean, taskId?: string, error?: string}> => {
+// Get active (uncompleted) tasks, optionally filtered by label - throws if Todoist can't be queried
+export const getActiveTasks = async (label?: string): Promise<Array<{id: string, content: string, labels: string[]}>> => {
+  const todoistAccount = await getActiveTodoistAccount();
+  if (!todoistAccount) {
+    throw new Error('No active Todoist account found');
+  }
+
+  const result = await executeAction('TODOIST_GET_ACTIVE_TASKS', {
+    connectedAccountId: todoistAccount.id,
+    arguments: label ? { label } : {}
+  });
+
+  if (!result.successful) {
+    throw new Error(`Failed to get active tasks: ${result.error || 'unknown error'}`);
+  }
+
+  const tasks = result.data?.tasks || result.data?.items || (Array.isArray(result.data) ? result.data : []);
+  return tasks.map((task: any) => ({
+    id: String(task.id),
+    content: task.content || '',
+    labels: Array.isArray(task.labels) ? task.labels : []
+  }));
+};
+
+// Get a single task - returns null only when Todoist says the task does not exist (other failures throw)
+export const getTask = async (taskId: string): Promise<{id: string, content: string, isCompleted: boolean, labels: string[]} | null> => {
+  try {
+    const todoistAccount = await getActiveTodoistAccount();
+    if (!todoistAccount) {
+      throw new Error('No active Todoist account found');
+    }
+
+    const result = await executeAction('TODOIST_GET_TASK', {
+      connectedAccountId: todoistAccount.id,
+      arguments: { task_id: taskId }
+    });
+
+    if (!result.successful) {
+      if (isNotFoundError(result.error)) {
+        return null;
+      }
+      throw new Error(`Failed to get task ${taskId}: ${result.error || 'unknown error'}`);
+    }
+
+    const task = result.data?.task || result.data;
+    if (!task?.id) {
+      throw new Error(`Failed to get task ${taskId}: no task in response`);
+    }
+
+    return {
+      id: String(task.id),
+      content: task.content || '',
+      isCompleted: Boolean(task.is_completed ?? task.checked ?? task.completed_at),
+      labels: Array.isArray(task.labels) ? task.labels : []
+    };
+
+  } catch (error) {
+    log.error(`❌ Failed to get task ${taskId}:`, error);
+    throw error;
+  }
+};
+
+// Composio passes Todoist's 404 through as the error text
+const isNotFoundError = (error: unknown): boolean => {
+  const message = typeof error === 'string' ? error : JSON.stringify(error ?? '');
+  return /\b404\b|not found/i.test(message);
+};
+
+// Add a comment to an existing task
+export const addTaskComment = async (taskId: string, content: string): Promise<boolean> => {
+  return await runTaskAction('TODOIST_CREATE_COMMENT', { task_id: taskId, content }, `add comment to task ${taskId}`);
+};
+
+// Update the due date of an existing task
+export const updateTaskDueDate = async (taskId: string, dueString: string): Promise<boolean> => {
+  return await runTaskAction('TODOIST_UPDATE_TASK', { task_id: taskId, due_string: dueString }, `update due date of task ${taskId}`);
+};
+
+// Reopen a completed task
+export const reopenTask = async (taskId: string): Promise<boolean> => {
+  return await runTaskAction('TODOIST_REOPEN_TASK', { task_id: taskId }, `reopen task ${taskId}`);
+};
+
+// Run a Todoist action against an existing task, reporting success as a boolean
+const runTaskAction = async (action: string, args: any, description: string): Promise<boolean> => {
+  if (isDryRun()) {
+    recordDryRunAction({ type: 'update_task', taskId: args.task_id, detail: description });
+    return true;
+  }
+
+  try {
+    const todoistAccount = await getActiveTodoistAccount();
+    if (!todoistAccount) {
+      log.error(`❌ Cannot ${description}: no active Todoist account found`);
+      return false;
+    }
+
+    const result = await executeAction(action, {
+      connectedAccountId: todoistAccount.id,
+      arguments: args
+    });
+
+    if (!result.successful) {
+      log.error(`❌ Failed to ${description}:`, result.error);
+      return false;
+    }
+    return true;
+
+  } catch (error) {
+    log.error(`❌ Failed to ${description}:`, error);
+    return false;
+  }
+};
+
+// Build task data from email using subject/body keyword heuristics
+export const buildTaskDataFromEmail = (email: EmailData): TaskData => {
   // Extract sender name
   const senderName = email.from.split('<')[0].trim() || email.from;
   
@@ -83,17 +213,118 @@ export const createTaskFromEmail = async (email: EmailData): Promise<{success: b
   // Extract due date hints
   const dueDateHints = extractDueDateFromText(emailText);
   
-  const taskData: TaskData = {
+  return {
     title: cleanSubject.length > 0 
       ? `${cleanSubject} (from ${senderName})`
       : `Email from ${senderName}`,
-    description: `${email.snippet}\n\nFrom: ${email.from}\nReceived: ${new Date(email.timestamp).toLocaleString()}`,
+    description: `${email.snippet}${buildEmailFooter(email)}`,
     priority,
     dueDate: dueDateHints,
     labels: ['email-todo']
   };
+};
+
+// Build task data from AI-generated task fields, using heuristics only where the AI left gaps
+export const buildTaskDataFromAI = (email: EmailData, aiResult: AIClassificationResult): TaskData => {
+  const fallback = buildTaskDataFromEmail(email);
+  const aiTask = aiResult.taskData;
+  
+  if (!aiTask) {
+    return fallback;
+  }
+  
+  const labels = [...(fallback.labels || [])];
+  if (aiResult.suggestedLabel && aiResult.suggestedLabel !== 'TodoAgent_Skip' && !labels.includes(aiResult.suggestedLabel)) {
+    labels.push(aiResult.suggestedLabel);
+  }
+  
+  const description = aiTask.description?.trim();
+  
+  return {
+    title: aiTask.title?.trim() || fallback.title,
+    description: description ? `${description}${buildEmailFooter(email)}` : fallback.description,
+    priority: [1, 2, 3, 4].includes(aiTask.priority) ? aiTask.priority : fallback.priority,
+    dueDate: cleanDueString(aiTask.dueString) || fallback.dueDate,
+    labels
+  };
+};
+
+// Apply a matched rule's actions (project, section, labels, due date, priority, title) to task data
+export const applyRuleActions = async (
+  taskData: TaskData,
+  email: EmailData,
+  actions: FilterRule['actions']
+): Promise<TaskData> => {
+  const result: TaskData = { ...taskData, labels: [...(taskData.labels || [])] };
+  
+  if (actions.priority) {
+    result.priority = actions.priority;
+  }
+  
+  if (actions.dueString) {
+    result.dueDate = actions.dueString;
+  }
+  
+  if (actions.titleTemplate) {
+    result.title = renderTitleTemplate(actions.titleTemplate, email);
+  }
+  
+  actions.labels?.forEach(label => {
+    if (!result.labels!.includes(label)) {
+      result.labels!.push(label);
+    }
+  });
+  
+  if (actions.project) {
+    const projectId = await findProjectIdByName(actions.project);
+    if (projectId) {
+      result.projectId = projectId;
+      
+      if (actions.section) {
+        const sectionId = await findSectionIdByName(projectId, actions.section);
+        if (sectionId) {
+          result.sectionId = sectionId;
+        } else {
+          log.warn(`⚠️ Todoist section "${actions.section}" not found in project "${actions.project}" - using project root`);
+        }
+      }
+    } else {
+      log.warn(`⚠️ Todoist project "${actions.project}" not found - task will go to the Inbox`);
+    }
+  }
+  
+  return result;
+};
+
+// Render a title template - supports {subject}, {from}, {fromName}, {fromEmail}, {date} and {snippet}
+export const renderTitleTemplate = (template: string, email: EmailData): string => {
+  const fromName = email.from.split('<')[0].trim().replace(/^"|"$/g, '') || email.from;
+  const fromEmail = email.from.match(/<([^>]+)>/)?.[1] || email.from;
+  const values: { [key: string]: string } = {
+    subject: email.subject.replace(/^(re:|fwd?:)\s*/i, '').trim(),
+    from: email.from,
+    fromName,
+    fromEmail,
+    date: new Date(email.timestamp).toLocaleDateString(),
+    snippet: email.snippet
+  };
+  
+  const title = template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder).trim();
+  return title || buildTaskDataFromEmail(email).title;
+};
 
-  return await createTask(taskData);
+// Source details appended to every task description
+const buildEmailFooter = (email: EmailData): string => {
+  return `\n\nFrom: ${email.from}\nReceived: ${new Date(email.timestamp).toLocaleString()}`;
+};
+
+// Ignore empty or placeholder due strings returned by the AI
+const cleanDueString = (dueString?: string): string | undefined => {
+  const trimmed = dueString?.trim();
+  if (!trimmed || ['null', 'none', 'n/a', 'undefined'].includes(trimmed.toLowerCase())) {
+    return undefined;
+  }
+  return trimmed;
 };
 
 // Get all Todoist projects
@@ -119,11 +350,62 @@ export const getProjects = async (): Promise<Array<{id: string, name: string}>>
     }));
 
   } catch (error) {
-    console.error('❌ Failed to get projects:', error);
+    log.error('❌ Failed to get projects:', error);
     return [];
   }
 };
 
+// Project lookups are cached for the lifetime of the process
+let projectCache: Array<{id: string, name: string}> | null = null;
+
+// Resolve a Todoist project ID by name (case-insensitive)
+export const findProjectIdByName = async (projectName: string): Promise<string | null> => {
+  const wanted = projectName.trim().toLowerCase();
+  
+  if (!projectCache || !projectCache.some(p => p.name.toLowerCase() === wanted)) {
+    const projects = await getProjects();
+    if (projects.length > 0) {
+      projectCache = projects;
+    }
+  }
+  
+  const project = projectCache?.find(p => p.name.toLowerCase() === wanted);
+  return project ? String(project.id) : null;
+};
+
+// Get sections of a Todoist project
+export const getSections = async (projectId: string): Promise<Array<{id: string, name: string}>> => {
+  try {
+    const todoistAccount = await getActiveTodoistAccount();
+    if (!todoistAccount) {
+      return [];
+    }
+
+    const result = await executeAction('TODOIST_GET_ALL_SECTIONS', {
+      connectedAccountId: todoistAccount.id,
+      arguments: { project_id: projectId }
+    });
+
+    const sections = result.data?.sections || (Array.isArray(result.data) ? result.data : []);
+    return sections.map((section: any) => ({
+      id: String(section.id),
+      name: section.name
+    }));
+
+  } catch (error) {
+    log.error(`❌ Failed to get sections for project ${projectId}:`, error);
+    return [];
+  }
+};
+
+// Resolve a section ID by name within a project (case-insensitive)
+export const findSectionIdByName = async (projectId: string, sectionName: string): Promise<string | null> => {
+  const wanted = sectionName.trim().toLowerCase();
+  const sections = await getSections(projectId);
+  const section = sections.find(s => s.name.toLowerCase() === wanted);
+  return section ? section.id : null;
+};
+
 // Helper function to extract due date from email text
 const extractDueDateFromText = (text: string): string | undefined => {
   const patterns = [
@@ -1,6 +1,9 @@
 // Gmail triggers service - pure functions following docs
+import { createLogger } from '../core/logger';
 import { createTrigger, getActiveGmailAccount, getComposio } from './composio';
 
+const log = createLogger('triggers');
+
 // Create Gmail new message trigger (following docs pattern)
 export const createGmailTrigger = async (webhookUrl: string): Promise<{success: boolean, triggerId?: string, error?: string}> => {
   try {
@@ -10,7 +13,7 @@ export const createGmailTrigger = async (webhookUrl: string): Promise<{success:
       return { success: false, error: 'No active Gmail account found' };
     }
 
-    console.log(`📡 Creating Gmail trigger with webhook: ${webhookUrl}`);
+    log.info(`📡 Creating Gmail trigger with webhook: ${webhookUrl}`);
 
     // Using the createTrigger function from composio service
     const trigger = await createTrigger(
@@ -22,14 +25,14 @@ export const createGmailTrigger = async (webhookUrl: string): Promise<{success:
     );
 
     if (trigger.triggerId) {
-      console.log(`✅ Gmail trigger created: ${trigger.triggerId}`);
+      log.info(`✅ Gmail trigger created: ${trigger.triggerId}`);
       return { success: true, triggerId: trigger.triggerId };
     } else {
       return { success: false, error: 'No trigger ID returned' };
     }
 
   } catch (error) {
-    console.error('❌ Failed to create Gmail trigger:', error);
+    log.error('❌ Failed to create Gmail trigger:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 };
@@ -43,7 +46,7 @@ export const listActiveTriggers = async (): Promise<Array<{id: string, slug: str
     const triggersResponse = await composio.triggers.listActive();
     const triggers = triggersResponse.items || [];
     
-    console.log(` Found ${triggers.length} active triggers`);
+    log.info(` Found ${triggers.length} active triggers`);
     
     // Transform the response to match our expected format
     return triggers.map((trigger: any) => ({
@@ -53,7 +56,7 @@ export const listActiveTriggers = async (): Promise<Array<{id: string, slug: str
     }));
 
   } catch (error) {
-    console.error('❌ Failed to list triggers:', error);
+    log.error('❌ Failed to list triggers:', error);
     return [];
   }
 };
@@ -66,11 +69,11 @@ export const deleteTrigger = async (triggerId: string): Promise<boolean> => {
     // Use SDK method instead of direct API call
     await composio.triggers.delete(triggerId);
 
-    console.log(`🗑️ Trigger deleted: ${triggerId}`);
+    log.info(`🗑️ Trigger deleted: ${triggerId}`);
     return true;
 
   } catch (error) {
-    console.error(`❌ Failed to delete trigger ${triggerId}:`, error);
+    log.error(`❌ Failed to delete trigger ${triggerId}:`, error);
     return false;
   }
 };
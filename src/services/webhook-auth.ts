@@ -0,0 +1,143 @@
+// Webhook authentication - HMAC signature verification, timestamp tolerance and replay protection for Composio payloads
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createLogger } from '../core/logger';
+
+const log = createLogger('webhook-auth');
+
+export interface WebhookAuthConfig {
+  secret?: string;
+  toleranceSeconds: number;
+  allowUnsigned: boolean;
+}
+
+export interface WebhookVerificationResult {
+  valid: boolean;
+  status?: number;
+  error?: string;
+  webhookId?: string;
+}
+
+// Requests carry the raw body so the signature is computed over the exact bytes that were sent
+export interface RawBodyRequest extends Request {
+  rawBody?: Buffer;
+}
+
+// Headers that must never reach the logs
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'x-api-key', 'webhook-signature', 'x-composio-signature'];
+
+// Webhook IDs seen within the tolerance window (id -> expiry in ms)
+const seenWebhookIds = new Map<string, number>();
+
+// Webhook auth configuration (WEBHOOK_SECRET, WEBHOOK_TOLERANCE_SECONDS, WEBHOOK_ALLOW_UNSIGNED)
+export const getWebhookAuthConfig = (): WebhookAuthConfig => {
+  return {
+    secret: process.env.WEBHOOK_SECRET || process.env.COMPOSIO_WEBHOOK_SECRET || undefined,
+    toleranceSeconds: parseInt(process.env.WEBHOOK_TOLERANCE_SECONDS || '300'),
+    allowUnsigned: process.env.WEBHOOK_ALLOW_UNSIGNED === 'true'
+  };
+};
+
+// Verify a webhook request signed as `${webhook-id}.${webhook-timestamp}.${body}` with HMAC-SHA256
+export const verifyWebhookSignature = (
+  headers: Request['headers'],
+  rawBody: Buffer,
+  config: WebhookAuthConfig = getWebhookAuthConfig(),
+  now: number = Date.now()
+): WebhookVerificationResult => {
+  if (!config.secret) {
+    return config.allowUnsigned
+      ? { valid: true }
+      : { valid: false, status: 401, error: 'Webhook secret not configured - set WEBHOOK_SECRET' };
+  }
+
+  const webhookId = getHeader(headers, 'webhook-id');
+  const timestamp = getHeader(headers, 'webhook-timestamp');
+  const signatureHeader = getHeader(headers, 'webhook-signature') || getHeader(headers, 'x-composio-signature');
+
+  if (!webhookId || !timestamp || !signatureHeader) {
+    return { valid: false, status: 401, error: 'Missing webhook signature headers' };
+  }
+
+  const timestampSeconds = parseInt(timestamp);
+  if (isNaN(timestampSeconds)) {
+    return { valid: false, status: 400, error: 'Invalid webhook timestamp' };
+  }
+
+  if (Math.abs(now / 1000 - timestampSeconds) > config.toleranceSeconds) {
+    return { valid: false, status: 401, error: 'Webhook timestamp outside tolerance', webhookId };
+  }
+
+  const expected = crypto
+    .createHmac('sha256', decodeSecret(config.secret))
+    .update(`${webhookId}.${timestampSeconds}.`)
+    .update(rawBody)
+    .digest();
+
+  // The header may list several space-separated signatures ("v1,<base64>") during secret rotation
+  const matches = signatureHeader.split(' ').some(candidate => {
+    const signature = candidate.includes(',') ? candidate.split(',')[1] : candidate;
+    const provided = Buffer.from(signature, 'base64');
+    return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+  });
+
+  if (!matches) {
+    return { valid: false, status: 401, error: 'Invalid webhook signature', webhookId };
+  }
+
+  pruneSeenWebhookIds(now);
+  if (seenWebhookIds.has(webhookId)) {
+    return { valid: false, status: 409, error: 'Webhook already received', webhookId };
+  }
+  // Remembered until the signed timestamp itself leaves the tolerance window, however early it arrived
+  seenWebhookIds.set(webhookId, Math.max(now, timestampSeconds * 1000) + config.toleranceSeconds * 1000);
+
+  return { valid: true, webhookId };
+};
+
+// Express middleware - rejects unauthenticated webhook requests before they are processed
+export const requireWebhookSignature = (req: RawBodyRequest, res: Response, next: NextFunction): void => {
+  const result = verifyWebhookSignature(req.headers, req.rawBody || Buffer.alloc(0));
+  if (result.valid) {
+    res.locals.webhookId = result.webhookId;
+    next();
+    return;
+  }
+
+  log.warn(`🔒 Rejected webhook from ${req.ip}: ${result.error}`, { headers: redactHeaders(req.headers) });
+  res.status(result.status || 401).json({
+    success: false,
+    message: result.error,
+    timestamp: new Date().toISOString()
+  });
+};
+
+// Forget a webhook ID so a redelivery after a failed attempt is not treated as a replay
+export const releaseWebhookId = (webhookId?: string): void => {
+  if (webhookId) {
+    seenWebhookIds.delete(webhookId);
+  }
+};
+
+// Copy of request headers that is safe to log
+export const redactHeaders = (headers: Request['headers']): { [name: string]: string | string[] | undefined } => {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, SENSITIVE_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value])
+  );
+};
+
+// Standard-webhooks secrets are base64 with a "whsec_" prefix; anything else is used as-is
+const decodeSecret = (secret: string): Buffer => {
+  return secret.startsWith('whsec_') ? Buffer.from(secret.substring(6), 'base64') : Buffer.from(secret, 'utf8');
+};
+
+const getHeader = (headers: Request['headers'], name: string): string | undefined => {
+  const value = headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const pruneSeenWebhookIds = (now: number): void => {
+  seenWebhookIds.forEach((expiresAt, id) => {
+    if (expiresAt <= now) seenWebhookIds.delete(id);
+  });
+};
@@ -1,22 +1,40 @@
 // Simple webhook server for Gmail triggers
 import express from 'express';
-import { processEmail } from './email-processor';
+import { renderMetrics } from '../core/metrics';
+import { createLogger, withLogContext } from '../core/logger';
+import { enqueueEmailJob } from './job-queue';
+import { createAdminRouter, getAdminApiToken, safeEqual } from './admin-api';
+import { createDashboardRouter } from './dashboard';
+import { requireWebhookSignature, releaseWebhookId, redactHeaders, getWebhookAuthConfig, RawBodyRequest } from './webhook-auth';
+
+const log = createLogger('webhook-server');
 
 const app = express();
 
+// Keep the raw body around - signatures are computed over the bytes as sent
+const captureRawBody = (req: RawBodyRequest, _res: express.Response, buf: Buffer): void => {
+  req.rawBody = buf;
+};
+
 // Middleware
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: true, verify: captureRawBody }));
+
+// Webhook deliveries get a correlation ID (the delivery's webhook-id when present) that follows the queued job
+app.use('/webhook', (req, _res, next) => {
+  const webhookId = req.headers['webhook-id'];
+  void withLogContext({ source: 'webhook', correlationId: typeof webhookId === 'string' ? webhookId : undefined }, async () => next());
+});
 
 // Global server state
 let server: any = null;
 
 // Webhook endpoint for Gmail triggers (matching original /webhook pattern)
-app.post('/webhook', async (req, res) => {
+app.post('/webhook', requireWebhookSignature, async (req, res) => {
   try {
-    console.log('📧 Received Gmail webhook:', {
-      headers: req.headers,
-      body: req.body
+    log.info('📧 Received Gmail webhook:', {
+      headers: redactHeaders(req.headers),
+      type: req.body?.type || req.body?.triggerSlug
     });
 
     // Extract email data from webhook payload
@@ -35,29 +53,20 @@ app.post('/webhook', async (req, res) => {
       const emailId = payload.data?.message_id || payload.data?.id || payload.data?.messageId;
       
       if (emailId) {
-        console.log(`📧 Processing webhook for email: ${emailId}`);
-        
-        // Process the email asynchronously
-        processEmail(emailId).then(result => {
-          if (result.success) {
-            console.log(`✅ Webhook processing complete for ${emailId}: ${result.taskId ? `Task ${result.taskId} created` : 'Processed successfully'}`);
-          } else {
-            console.error(`❌ Webhook processing failed for ${emailId}: ${result.error}`);
-          }
-        }).catch(error => {
-          console.error(`❌ Webhook processing error for ${emailId}:`, error);
-        });
+        // Persist the job before acknowledging so a crash or restart can't lose it
+        const job = await enqueueEmailJob(emailId, 'webhook');
+        log.info(`📥 Queued job ${job.id} for email: ${emailId}`);
 
-        // Return success immediately (don't make Composio wait)
         res.status(200).json({ 
           success: true, 
-          message: 'Webhook received, processing email',
+          message: 'Webhook received, email queued for processing',
           emailId,
+          jobId: job.id,
           trigger: triggerSlug,
           timestamp: new Date().toISOString()
         });
       } else {
-        console.warn('⚠️ No email ID found in webhook payload');
+        log.warn('⚠️ No email ID found in webhook payload');
         res.status(200).json({ 
           success: false, 
           message: 'No email ID in webhook payload',
@@ -66,7 +75,7 @@ app.post('/webhook', async (req, res) => {
         });
       }
     } else {
-      console.log(`ℹ️ Ignoring webhook for trigger: ${triggerSlug}`);
+      log.info(`ℹ️ Ignoring webhook for trigger: ${triggerSlug}`);
       res.status(200).json({ 
         success: true, 
         message: 'Webhook received but not processed (non-Gmail trigger)',
@@ -76,9 +85,10 @@ app.post('/webhook', async (req, res) => {
     }
 
   } catch (error) {
-    console.error('❌ Webhook processing error:', error);
-    // Still return 200 to prevent retries, but log the error (matching original)
-    res.status(200).json({ 
+    log.error('❌ Webhook processing error:', error);
+    // The job could not be queued - a 5xx lets Composio redeliver the event
+    releaseWebhookId(res.locals.webhookId);
+    res.status(500).json({ 
       success: false, 
       message: 'Internal server error',
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -87,6 +97,22 @@ app.post('/webhook', async (req, res) => {
   }
 });
 
+// Admin API (bearer-token authenticated)
+app.use('/api', createAdminRouter());
+
+// Browser dashboard (uses the admin API)
+app.use('/dashboard', createDashboardRouter());
+
+// Prometheus metrics (optionally protected with METRICS_TOKEN)
+app.get('/metrics', (req, res) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && !safeEqual(req.headers.authorization || '', `Bearer ${token}`)) {
+    res.status(401).type('text/plain').send('Unauthorized\n');
+    return;
+  }
+  res.type('text/plain; version=0.0.4').send(renderMetrics());
+});
+
 // Health check endpoint
 app.get('/health', (_req, res) => {
   res.status(200).json({ 
@@ -100,26 +126,37 @@ app.get('/health', (_req, res) => {
 export const startWebhookServer = async (port: number = 3001): Promise<{success: boolean, url?: string, error?: string}> => {
   try {
     if (server) {
-      console.log('⚠️ Webhook server already running');
+      log.info('⚠️ Webhook server already running');
       return { success: true, url: `http://localhost:${port}` };
     }
 
+    const authConfig = getWebhookAuthConfig();
+    if (!authConfig.secret) {
+      log.warn(authConfig.allowUnsigned
+        ? '⚠️ WEBHOOK_SECRET not set - accepting unsigned webhooks (WEBHOOK_ALLOW_UNSIGNED=true)'
+        : '⚠️ WEBHOOK_SECRET not set - all webhook requests will be rejected');
+    }
+
     return new Promise((resolve) => {
       server = app.listen(port, '0.0.0.0', () => {
         const webhookUrl = `http://localhost:${port}`;
-        console.log(`🌐 Webhook server started on ${webhookUrl}`);
-        console.log(`📡 Gmail webhook endpoint: ${webhookUrl}/webhook/gmail`);
+        log.info(`🌐 Webhook server started on ${webhookUrl}`);
+        log.info(`📡 Gmail webhook endpoint: ${webhookUrl}/webhook/gmail`);
+        if (getAdminApiToken()) {
+          log.info(`🛠️ Admin API: ${webhookUrl}/api`);
+          log.info(`📊 Dashboard: ${webhookUrl}/dashboard`);
+        }
         resolve({ success: true, url: webhookUrl });
       });
 
       server.on('error', (error: Error) => {
-        console.error('❌ Webhook server error:', error);
+        log.error('❌ Webhook server error:', error);
         resolve({ success: false, error: error.message });
       });
     });
 
   } catch (error) {
-    console.error('❌ Failed to start webhook server:', error);
+    log.error('❌ Failed to start webhook server:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
   }
 };
@@ -133,14 +170,14 @@ export const stopWebhookServer = async (): Promise<boolean> => {
 
     return new Promise((resolve) => {
       server.close(() => {
-        console.log('🛑 Webhook server stopped');
+        log.info('🛑 Webhook server stopped');
         server = null;
         resolve(true);
       });
     });
 
   } catch (error) {
-    console.error('❌ Failed to stop webhook server:', error);
+    log.error('❌ Failed to stop webhook server:', error);
     return false;
   }
 };